@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProposedDiff } from './changeset';
+import { formatDiagnostic } from './diagnostics';
+import { applyHunks } from './diff/apply';
+import { formatDiffProblem, parseDiff, parsePatch } from './diff/parse';
+import { AgentTurn, ModelProvider, ToolCall, ToolDefinition } from './providers';
+import { describeFailure } from './repair';
+import { formatSearchResult, WorkspaceIndex } from './search/workspaceIndex';
+import { ResolvedPath, resolveWorkspacePath, toWorkspacePath } from './workspacePaths';
+
+// Larger files are cut off, and the model is told how to read the rest
+const MAX_READ_LINES = 2000;
+const MAX_DIRECTORY_ENTRIES = 500;
+const SEARCH_RESULTS = 8;
+
+export const AGENT_TOOLS: ToolDefinition[] = [
+	{
+		name: 'readFile',
+		description: 'Reads a workspace file. Returns its lines prefixed with 1-based line numbers. Long files are returned a range at a time.',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Path relative to the workspace root.' },
+				startLine: { type: 'number', description: 'First line to read, 1-based. Defaults to 1.' },
+				endLine: { type: 'number', description: 'Last line to read, inclusive.' },
+			},
+			required: ['path'],
+		},
+	},
+	{
+		name: 'listDirectory',
+		description: 'Lists the files and folders in a workspace folder. Folders end with a slash.',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Path relative to the workspace root. Use "." for the root.' },
+			},
+			required: ['path'],
+		},
+	},
+	{
+		name: 'searchWorkspace',
+		description: 'Searches the workspace for code matching keywords, such as identifiers or words from comments. Returns the best matching snippets with their file and line numbers.',
+		parameters: {
+			type: 'object',
+			properties: {
+				query: { type: 'string' },
+			},
+			required: ['query'],
+		},
+	},
+	{
+		name: 'getDiagnostics',
+		description: 'Returns the errors and warnings VS Code reports, for one file or for the whole workspace.',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Path relative to the workspace root. Omit for every file.' },
+			},
+		},
+	},
+	{
+		name: 'proposeDiff',
+		description: "Proposes a change to one file as a unified diff with '--- a/path' and '+++ b/path' headers. The user approves or declines it; approved diffs are opened for review once you finish. Read a file before changing it and copy context lines exactly.",
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Path of the file the diff changes, relative to the workspace root.' },
+				diff: { type: 'string' },
+			},
+			required: ['path', 'diff'],
+		},
+	},
+];
+
+/** Asks the user whether a diff the model wants to write may be kept. */
+export type ApproveDiff = (diff: ProposedDiff) => Promise<boolean>;
+
+function stringArg(call: ToolCall, name: string): string {
+	const value = call.args[name];
+	if (typeof value !== 'string' || !value) { throw new Error(`Missing the "${name}" argument.`); }
+	return value;
+}
+
+/**
+ * Carries out the model's tool calls against the workspace. Reads are limited to the workspace folders; the only
+ * write, `proposeDiff`, needs the user's approval and only queues the diff in `proposals` for review.
+ */
+export class AgentTools {
+	readonly proposals: ProposedDiff[] = [];
+
+	/** `snapshots` receives the content of each file the model reads, so later edits can be merged with its diffs. */
+	constructor(
+		private readonly workspaceIndex: WorkspaceIndex,
+		private readonly snapshots: Map<string, string>,
+		private readonly approve: ApproveDiff,
+	) { }
+
+	/** Runs a tool call. Failures are returned as text, so the model can correct itself. */
+	async execute(call: ToolCall): Promise<string> {
+		try {
+			switch (call.name) {
+				case 'readFile': return await this.readFile(call);
+				case 'listDirectory': return await this.listDirectory(call);
+				case 'searchWorkspace': return await this.searchWorkspace(call);
+				case 'getDiagnostics': return await this.getDiagnostics(call);
+				case 'proposeDiff': return await this.proposeDiff(call);
+				default: return `Error: there is no tool named ${call.name}.`;
+			}
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			return `Error: ${errorMessage}`;
+		}
+	}
+
+	private async resolve(workspacePath: string): Promise<ResolvedPath & { filePath: string }> {
+		const resolved = await resolveWorkspacePath(workspacePath);
+		const relativePath = path.posix.normalize(resolved.relativePath || '.');
+		if (relativePath === '..' || relativePath.startsWith('../') || path.isAbsolute(workspacePath)) {
+			throw new Error(`${workspacePath} is outside the workspace.`);
+		}
+		return { ...resolved, filePath: resolved.workspacePath || '.' };
+	}
+
+	private async readFile(call: ToolCall): Promise<string> {
+		const { filePath, uri } = await this.resolve(stringArg(call, 'path'));
+		const content = (await vscode.workspace.openTextDocument(uri)).getText();
+		this.snapshots.set(filePath, content);
+
+		const lines = content.split('\n');
+		const start = Math.max(1, Number(call.args.startLine) || 1);
+		const end = Math.min(lines.length, Number(call.args.endLine) || lines.length, start + MAX_READ_LINES - 1);
+		const numbered = lines.slice(start - 1, end).map((line, index) => `${start + index}: ${line}`).join('\n');
+		const more = end < lines.length ? `\n[... ${lines.length - end} more lines; read from line ${end + 1} to see them ...]` : '';
+		return `${filePath} (lines ${start}-${end} of ${lines.length}):\n${numbered}${more}`;
+	}
+
+	private async listDirectory(call: ToolCall): Promise<string> {
+		const requested = stringArg(call, 'path');
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		// The root of a multi-root workspace is its list of folders
+		if (folders.length > 1 && /^[./\\]*$/.test(requested)) {
+			return `The workspace folders:\n${folders.map(folder => `${folder.name}/`).join('\n')}`;
+		}
+		const { filePath, uri } = await this.resolve(requested);
+		const entries = await vscode.workspace.fs.readDirectory(uri);
+		const names = entries
+			.filter(([name]) => name !== '.git' && name !== 'node_modules')
+			.map(([name, type]) => type === vscode.FileType.Directory ? `${name}/` : name)
+			.sort();
+		const more = names.length > MAX_DIRECTORY_ENTRIES ? `\n[... ${names.length - MAX_DIRECTORY_ENTRIES} more entries ...]` : '';
+		return names.length > 0 ? `${filePath}:\n${names.slice(0, MAX_DIRECTORY_ENTRIES).join('\n')}${more}` : `${filePath} is empty.`;
+	}
+
+	private async searchWorkspace(call: ToolCall): Promise<string> {
+		const query = stringArg(call, 'query');
+		const results = await this.workspaceIndex.search(query, SEARCH_RESULTS);
+		return results.length > 0 ? results.map(result => formatSearchResult(query, result)).join('') : `Nothing in the workspace matched "${query}".`;
+	}
+
+	private async getDiagnostics(call: ToolCall): Promise<string> {
+		const requested = typeof call.args.path === 'string' && call.args.path ? await this.resolve(call.args.path) : undefined;
+		const entries: [vscode.Uri, vscode.Diagnostic[]][] = requested
+			? [[requested.uri, vscode.languages.getDiagnostics(requested.uri)]]
+			: vscode.languages.getDiagnostics().filter(([uri]) => vscode.workspace.getWorkspaceFolder(uri) !== undefined);
+
+		const lines = entries.flatMap(([uri, diagnostics]) => diagnostics
+			.filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning)
+			.map(diagnostic => `${toWorkspacePath(uri)}: ${formatDiagnostic(diagnostic)}`));
+		return lines.length > 0 ? lines.join('\n') : 'There are no errors or warnings.';
+	}
+
+	// Checks that the diff applies before bothering the user with it
+	private async proposeDiff(call: ToolCall): Promise<string> {
+		const { filePath } = await this.resolve(stringArg(call, 'path'));
+		const diff = stringArg(call, 'diff');
+		const { patches, problems } = parseDiff(diff);
+		if (patches.length === 0) { return 'Error: that is not a unified diff. Use --- a/path and +++ b/path headers followed by @@ hunks.'; }
+		const errors = problems.filter(problem => problem.severity === 'error');
+		if (errors.length > 0) {
+			return `Error: the diff is damaged (${errors.map(formatDiffProblem).join('; ')}). Write it again in full.`;
+		}
+
+		// Every path in the diff must stay in the workspace, and the file it changes must be the one the user approves.
+		// A rename counts as a change to the file being moved.
+		for (const patch of patches) {
+			for (const patchPath of [patch.oldPath, patch.newPath]) {
+				if (patchPath !== undefined) { await this.resolve(patchPath); }
+			}
+			const changed = patch.kind === 'create' || patch.kind === 'modify' ? patch.newPath : patch.oldPath;
+			if (changed !== undefined && (await this.resolve(changed)).filePath !== filePath) {
+				return `Error: the diff changes ${changed}, but path is ${filePath}. Propose one diff per file, with path set to the file it changes.`;
+			}
+		}
+
+		for (const patch of patches.filter(patch => patch.kind === 'modify')) {
+			const target = await this.resolve(patch.newPath ?? filePath);
+			const queued = this.proposals.filter(proposal => proposal.filePath === target.filePath);
+			let content = (await vscode.workspace.openTextDocument(target.uri)).getText();
+			// Earlier approved diffs for the same file are applied first, as they will be at review
+			for (const proposal of queued) {
+				for (const earlier of parsePatch(proposal.diff)) { content = applyHunks(content, earlier.hunks).content; }
+			}
+			const failed = applyHunks(content, patch.hunks).results
+				.map((result, index) => result.failure ? `hunk ${index + 1}: ${describeFailure(result.failure)}` : undefined)
+				.filter(Boolean);
+			if (failed.length > 0) {
+				return `Error: the diff for ${target.filePath} does not apply (${failed.join('; ')}). Read the file again and copy the context lines exactly.`;
+			}
+		}
+
+		const proposal: ProposedDiff = { filePath, diff };
+		if (!await this.approve(proposal)) {
+			return `The user declined the diff for ${filePath}. Ask what they want instead, or try a different approach.`;
+		}
+		this.proposals.push(proposal);
+		const repaired = problems.length > 0 ? ` It had to be repaired (${problems.map(formatDiffProblem).join('; ')}); take more care with the format.` : '';
+		return `The user approved the diff for ${filePath}. It will be opened for review when you finish; later diffs for this file apply on top of it.${repaired}`;
+	}
+}
+
+export interface AgentRun {
+	provider: ModelProvider;
+	/** The conversation so far, ending with the user's request. */
+	turns: AgentTurn[];
+	maxSteps: number;
+	signal: AbortSignal;
+	tools: AgentTools;
+	onChunk(type: 'text' | 'thought', text: string): void;
+	onToolCall(call: ToolCall): void;
+	onToolResult(call: ToolCall, result: string): void;
+}
+
+/**
+ * Lets the model call tools until it answers without calling any, or until it has used `maxSteps` rounds of tool
+ * calls. Returns the text of its answers, and whether it was stopped by the step limit.
+ */
+export async function runAgent(run: AgentRun): Promise<{ answer: string, stepsExhausted: boolean }> {
+	const turns = [...run.turns];
+	let answer = '';
+	for (let step = 0; step < run.maxSteps; step++) {
+		let text = '';
+		const calls: ToolCall[] = [];
+		for await (const chunk of run.provider.generateStream({ turns, signal: run.signal, tools: AGENT_TOOLS })) {
+			if (chunk.type === 'toolCall') {
+				calls.push(chunk.call);
+				run.onToolCall(chunk.call);
+			} else {
+				if (chunk.type === 'text') { text += chunk.text; }
+				run.onChunk(chunk.type, chunk.text);
+			}
+		}
+		answer += text;
+		if (calls.length === 0 || run.signal.aborted) { return { answer, stepsExhausted: false }; }
+
+		turns.push({ role: 'model', text, toolCalls: calls });
+		const results = [];
+		for (const call of calls) {
+			if (run.signal.aborted) { return { answer, stepsExhausted: false }; }
+			const result = await run.tools.execute(call);
+			run.onToolResult(call, result);
+			results.push({ id: call.id, name: call.name, result });
+		}
+		turns.push({ role: 'user', text: '', toolResults: results });
+	}
+	return { answer, stepsExhausted: true };
+}
@@ -0,0 +1,656 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Conversation } from './conversation';
+import { applyHunks, LineRange } from './diff/apply';
+import { diffLines, LineChange } from './diff/lineDiff';
+import { hasConflictMarkers, MergeLabels, mergeThreeWay } from './diff/merge';
+import { DiffProblem, FilePatch, FilePatchKind, formatDiffProblem, parseDiff } from './diff/parse';
+import { createFailureReport, FailureReport } from './repair';
+import { resolveWorkspacePath } from './workspacePaths';
+
+export type FileDecision = 'pending' | 'accepted' | 'rejected';
+
+export interface ChangesetFile {
+	kind: FilePatchKind;
+	/** The path the file has after the change, or the removed path for deletions. */
+	filePath: string;
+	/** The path a renamed file is moved from. */
+	oldPath?: string;
+	/** The left side of the review. For new files this is an empty document. */
+	originalUri: vscode.Uri;
+	/** Where the file lives after the change. */
+	targetUri: vscode.Uri;
+	/** The content of the file when the changeset was created. Empty for new files. */
+	originalText: string;
+	/** The right side of the review. For deleted files this is an empty document. */
+	patchedUri: vscode.Uri;
+	/** The patched content, kept so the file can still be applied after its review document is closed. */
+	patchedText: string;
+	decision: FileDecision;
+	/** Keys of the hunks the user accepted individually. */
+	acceptedHunks: Set<string>;
+	/** Set when the proposed content was merged with concurrent edits and has conflict markers to resolve. */
+	hasConflicts: boolean;
+}
+
+/** A changed region of a file under review. */
+export interface ReviewHunk {
+	key: string;
+	change: LineChange;
+	accepted: boolean;
+}
+
+/**
+ * Whether a file's changes can be accepted or rejected hunk by hunk. Created and deleted files are all or nothing.
+ */
+export function supportsHunkReview(file: ChangesetFile): boolean {
+	return file.kind === 'modify' || file.kind === 'rename';
+}
+
+// Identifies a hunk by what it replaces and what it inserts, so the key survives other hunks being rejected
+function hunkKey(change: LineChange, patchedLines: string[]): string {
+	const inserted = patchedLines.slice(change.modifiedStart, change.modifiedStart + change.modifiedLength);
+	return `${change.originalStart}:${change.originalLength}:${inserted.join('\n')}`;
+}
+
+/** The lines of a single file a diff may change, for requests limited to a selection or symbol. */
+export interface DiffScope {
+	filePath: string;
+	lines: LineRange;
+}
+
+/** A diff block from the model's answer, along with the file path shown for it in the chat. */
+export interface ProposedDiff {
+	filePath: string;
+	diff: string;
+	scope?: DiffScope;
+}
+
+/**
+ * All the file changes proposed in one answer. They are reviewed together and applied as a single workspace edit.
+ */
+export class Changeset {
+	constructor(
+		readonly files: ChangesetFile[],
+		readonly conversation: Conversation,
+		/** The request the changes answer. */
+		readonly prompt: string,
+		/** The hunks that could not be applied, per file. */
+		readonly reports: FailureReport[] = [],
+		/** The files with hunks that were placed by an approximate match. */
+		readonly approximateMatches: ApproximateMatch[] = [],
+	) { }
+
+	get isDecided(): boolean {
+		return this.files.every(file => file.decision !== 'pending');
+	}
+}
+
+interface PreparedFile {
+	kind: FilePatchKind;
+	filePath: string;
+	oldPath?: string;
+	/** The existing file the change starts from. Unset for new files. */
+	document?: vscode.TextDocument;
+	targetUri: vscode.Uri;
+	content: string;
+	/** Set when the file changed after it was sent to the model and the change was merged with those edits. */
+	merge?: { conflicts: number };
+}
+
+const MERGE_LABELS: MergeLabels = { ours: 'Current', base: 'Original', theirs: 'Gemini' };
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		await vscode.workspace.fs.stat(uri);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function openExisting(uri: vscode.Uri, workspacePath: string): Promise<vscode.TextDocument> {
+	try {
+		return await vscode.workspace.openTextDocument(uri);
+	} catch (e) {
+		throw new Error(`File not found in workspace: ${workspacePath}`);
+	}
+}
+
+/** The hunks of a file whose context only matched approximately where they were placed. */
+export interface ApproximateMatch {
+	filePath: string;
+	hunks: number;
+	totalHunks: number;
+	/** The lowest confidence among those hunks, from 0 to 1. */
+	lowestConfidence: number;
+}
+
+/** A file's content with a patch applied. */
+export interface PatchedContent {
+	content: string;
+	/** Set when some hunks were placed by an approximate match, whether or not others failed. */
+	approximate?: ApproximateMatch;
+}
+
+export function describeApproximateMatch(match: ApproximateMatch): string {
+	return `${match.hunks} of ${match.totalHunks} changes for ${match.filePath} were matched approximately (lowest confidence ${Math.round(match.lowestConfidence * 100)}%)`;
+}
+
+/**
+ * Applies a patch's hunks to `content`, adding a report to `reports` for any hunks that fail. Hunks whose context
+ * was matched approximately are returned for the caller to warn about.
+ */
+export function applyPatchHunks(content: string, patch: FilePatch, filePath: string, reports: FailureReport[], scope?: LineRange): PatchedContent {
+	const result = applyHunks(content, patch.hunks, scope);
+	const approximate = result.results.filter(r => r.placement && r.placement.confidence < 1);
+	const report = createFailureReport(filePath, result.results);
+	if (report) {
+		reports.push(report);
+	}
+	if (approximate.length === 0) { return { content: result.content }; }
+	return {
+		content: result.content,
+		approximate: {
+			filePath,
+			hunks: approximate.length,
+			totalHunks: result.totalHunks,
+			lowestConfidence: Math.min(...approximate.map(r => r.placement!.confidence)),
+		},
+	};
+}
+
+// Applies a patch's hunks while a changeset is prepared, collecting the approximate matches to warn about
+function patchContent(content: string, patch: FilePatch, filePath: string, reports: FailureReport[], approximateMatches: ApproximateMatch[], scope?: LineRange): string {
+	const patched = applyPatchHunks(content, patch, filePath, reports, scope);
+	if (patched.approximate) { approximateMatches.push(patched.approximate); }
+	return patched.content;
+}
+
+/**
+ * Applies a patch to an existing file. If the file changed since `snapshot` was sent to the model, the patch is
+ * applied to the snapshot it was written against and the result is merged with the file's current content.
+ */
+function patchExisting(document: vscode.TextDocument, snapshot: string | undefined, patch: FilePatch, filePath: string, reports: FailureReport[], approximateMatches: ApproximateMatch[], scope?: LineRange): Pick<PreparedFile, 'content' | 'merge'> {
+	const current = document.getText();
+	if (snapshot === undefined || snapshot === current) {
+		return { content: patchContent(current, patch, filePath, reports, approximateMatches, scope) };
+	}
+	const theirs = patchContent(snapshot, patch, filePath, reports, approximateMatches, scope);
+	const merged = mergeThreeWay(snapshot.split('\n'), current.split('\n'), theirs.split('\n'), MERGE_LABELS);
+	return { content: merged.lines.join('\n'), merge: { conflicts: merged.conflicts } };
+}
+
+/**
+ * Works out what a single file patch does to the workspace. `prepared` holds the files handled so far,
+ * so several diffs for the same file are applied one after the other. Paths are resolved to their workspace
+ * folder and recorded in their canonical form.
+ */
+async function prepareFile(patch: FilePatch, fallbackPath: string, prepared: Map<string, PreparedFile>, reports: FailureReport[], approximateMatches: ApproximateMatch[], snapshots: Map<string, string>, scope?: LineRange): Promise<PreparedFile> {
+	switch (patch.kind) {
+		case 'create': {
+			const { uri: targetUri, workspacePath: filePath } = await resolveWorkspacePath(patch.newPath!);
+			if (prepared.has(filePath) || await fileExists(targetUri)) {
+				throw new Error(`Cannot create ${filePath}: the file already exists.`);
+			}
+			const addedLines = patch.hunks.flatMap(hunk => hunk.lines.filter(line => line.type === 'add').map(line => line.content));
+			const finalNewline = patch.hunks[patch.hunks.length - 1]?.newNoNewline ? '' : '\n';
+			return { kind: 'create', filePath, targetUri, content: addedLines.length > 0 ? `${addedLines.join('\n')}${finalNewline}` : '' };
+		}
+		case 'delete': {
+			const { uri, workspacePath: filePath } = await resolveWorkspacePath(patch.oldPath!);
+			const document = await openExisting(uri, filePath);
+			return { kind: 'delete', filePath, document, targetUri: document.uri, content: '' };
+		}
+		case 'rename': {
+			const source = await resolveWorkspacePath(patch.oldPath!);
+			const oldPath = source.workspacePath;
+			const { uri: targetUri, workspacePath: filePath } = await resolveWorkspacePath(patch.newPath!);
+			if (prepared.has(filePath) || await fileExists(targetUri)) {
+				throw new Error(`Cannot rename ${oldPath} to ${filePath}: the target already exists.`);
+			}
+			const document = await openExisting(source.uri, oldPath);
+			if (patch.hunks.length === 0) {
+				return { kind: 'rename', filePath, oldPath, document, targetUri, content: document.getText() };
+			}
+			return { kind: 'rename', filePath, oldPath, document, targetUri, ...patchExisting(document, snapshots.get(oldPath), patch, filePath, reports, approximateMatches) };
+		}
+		case 'modify': {
+			if (patch.hunks.length === 0) { throw new Error("Diff does not contain any valid hunks."); }
+			const { uri, workspacePath: filePath } = await resolveWorkspacePath(patch.newPath ?? patch.oldPath ?? fallbackPath);
+
+			const previous = prepared.get(filePath);
+			if (previous && previous.kind !== 'delete') {
+				return { ...previous, content: patchContent(previous.content, patch, filePath, reports, approximateMatches, scope) };
+			}
+			const document = await openExisting(uri, filePath);
+			return { kind: 'modify', filePath, document, targetUri: document.uri, ...patchExisting(document, snapshots.get(filePath), patch, filePath, reports, approximateMatches, scope) };
+		}
+	}
+}
+
+// Shows what was wrong with a diff: hunks that were left out as errors, repairs as a warning
+function reportDiffProblems(problems: DiffProblem[]) {
+	const errors = problems.filter(problem => problem.severity === 'error');
+	const warnings = problems.filter(problem => problem.severity === 'warning');
+	if (errors.length > 0) {
+		vscode.window.showErrorMessage(`Parts of the diff were left out: ${errors.map(formatDiffProblem).join('; ')}.`);
+	}
+	if (warnings.length > 0) {
+		vscode.window.showWarningMessage(`The diff was repaired before applying it. Please review carefully: ${warnings.map(formatDiffProblem).join('; ')}.`);
+	}
+}
+
+/**
+ * Applies every proposed diff to its file and opens the patched results as untitled documents for review.
+ * Files that can't be patched at all are reported and left out of the changeset; hunks that fail to apply
+ * are collected in the changeset's reports, and hunks placed by an approximate match in its approximate matches.
+ * `snapshots` holds the content of each file as it was sent to the model, so edits made since then are merged
+ * rather than overwritten.
+ */
+export async function createChangeset(diffs: ProposedDiff[], conversation: Conversation, prompt: string, snapshots: Map<string, string> = new Map()): Promise<Changeset> {
+	const prepared = new Map<string, PreparedFile>();
+	const reports: FailureReport[] = [];
+	const approximateMatches: ApproximateMatch[] = [];
+
+	for (const proposed of diffs) {
+		const { patches, problems } = parseDiff(proposed.diff);
+		reportDiffProblems(problems.map(problem => ({ ...problem, filePath: problem.filePath ?? proposed.filePath })));
+		for (const patch of patches) {
+			const displayPath = patch.newPath ?? patch.oldPath ?? proposed.filePath;
+			try {
+				const { scope } = proposed;
+				if (scope && (patch.kind !== 'modify' || (await resolveWorkspacePath(displayPath)).workspacePath !== scope.filePath)) {
+					throw new Error(`The request was limited to lines ${scope.lines.start + 1}-${scope.lines.end} of ${scope.filePath}.`);
+				}
+				const file = await prepareFile(patch, proposed.filePath, prepared, reports, approximateMatches, snapshots, scope?.lines);
+				prepared.set(file.filePath, file);
+			} catch (e) {
+				const errorMessage = e instanceof Error ? e.message : String(e);
+				console.error(`Failed to apply patch for ${displayPath}:`, errorMessage);
+				vscode.window.showErrorMessage(`Failed to apply the patch for ${displayPath}: ${errorMessage}`);
+			}
+		}
+	}
+
+	const files: ChangesetFile[] = [];
+	for (const file of prepared.values()) {
+		if (file.merge && file.merge.conflicts > 0) {
+			vscode.window.showWarningMessage(`${file.filePath} changed after it was sent to Gemini. The proposed changes were merged with your edits, but ${file.merge.conflicts} conflict(s) need to be resolved in the review before accepting.`);
+		} else if (file.merge) {
+			vscode.window.showInformationMessage(`${file.filePath} changed after it was sent to Gemini. The proposed changes were merged with your edits.`);
+		}
+
+		const language = file.document?.languageId;
+		const originalUri = file.document?.uri ?? (await vscode.workspace.openTextDocument({ content: '', language })).uri;
+		const patchedDoc = await vscode.workspace.openTextDocument({ content: file.content, language });
+		files.push({
+			kind: file.kind,
+			filePath: file.filePath,
+			oldPath: file.oldPath,
+			originalUri,
+			targetUri: file.targetUri,
+			originalText: file.document?.getText() ?? '',
+			patchedUri: patchedDoc.uri,
+			patchedText: file.content,
+			decision: 'pending',
+			acceptedHunks: new Set(),
+			hasConflicts: (file.merge?.conflicts ?? 0) > 0,
+		});
+	}
+	return new Changeset(files, conversation, prompt, reports, approximateMatches);
+}
+
+/** The files of a changeset that were written to the workspace, with the content each was given. */
+export interface AppliedChangeset {
+	changeset: Changeset;
+	applied: { file: ChangesetFile, content: string }[];
+}
+
+async function closeReviewTabs(files: ChangesetFile[]) {
+	const patchedUris = new Set(files.map(file => file.patchedUri.toString()));
+	const tabs = vscode.window.tabGroups.all
+		.flatMap(group => group.tabs)
+		.filter(tab => tab.input instanceof vscode.TabInputTextDiff && patchedUris.has(tab.input.modified.toString()));
+	if (tabs.length > 0) {
+		await vscode.window.tabGroups.close(tabs);
+	}
+}
+
+/**
+ * Shows the active changeset in the "Gemini Changeset" view and applies the files the user accepts.
+ * Only one changeset is reviewed at a time.
+ */
+export class ChangesetReview implements vscode.TreeDataProvider<ChangesetFile> {
+	private changeset: Changeset | undefined;
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+	private readonly hunkEmitter = new vscode.EventEmitter<void>();
+	/** Fires when hunk decisions change without the review document being edited. */
+	readonly onDidChangeHunks = this.hunkEmitter.event;
+	private readonly applyEmitter = new vscode.EventEmitter<AppliedChangeset>();
+	/** Fires after the accepted files of a changeset have been written. */
+	readonly onDidApply = this.applyEmitter.event;
+
+	get current(): Changeset | undefined {
+		return this.changeset;
+	}
+
+	/**
+	 * Starts reviewing `changeset`. Returns false if the user chose to keep a review that is still in progress.
+	 */
+	async open(changeset: Changeset): Promise<boolean> {
+		if (this.changeset && !this.changeset.isDecided) {
+			const selection = await vscode.window.showWarningMessage(
+				"Another set of changes is still being reviewed. Discard it and review the new changes?",
+				{ modal: true }, 'Discard and Review'
+			);
+			if (selection !== 'Discard and Review') { return false; }
+			await this.discard();
+		}
+
+		this.changeset = changeset;
+		this.refresh();
+		if (changeset.files.length > 0) {
+			await this.showFile(changeset.files[0]);
+		}
+		return true;
+	}
+
+	findFile(uri: vscode.Uri): ChangesetFile | undefined {
+		return this.changeset?.files.find(file => file.patchedUri.toString() === uri.toString());
+	}
+
+	findFileByPath(filePath: string): ChangesetFile | undefined {
+		return this.changeset?.files.find(file => file.filePath === filePath);
+	}
+
+	/**
+	 * The content a file is currently proposed to have, including edits made by hand in its review document.
+	 */
+	patchedContent(file: ChangesetFile): string {
+		const patchedDoc = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === file.patchedUri.toString());
+		return patchedDoc ? patchedDoc.getText() : file.patchedText;
+	}
+
+	/**
+	 * Replaces the proposed content of a file that is still being reviewed, and shows it again.
+	 */
+	async updatePatchedContent(file: ChangesetFile, content: string) {
+		await this.setPatchedContent(file, content);
+		await this.showFile(file);
+	}
+
+	/**
+	 * The regions where a file's proposed content differs from its original, in order.
+	 */
+	reviewHunks(file: ChangesetFile): ReviewHunk[] {
+		const patchedLines = this.patchedContent(file).split('\n');
+		return diffLines(file.originalText.split('\n'), patchedLines).map(change => {
+			const key = hunkKey(change, patchedLines);
+			return { key, change, accepted: file.acceptedHunks.has(key) };
+		});
+	}
+
+	/**
+	 * Keeps or reverts one hunk of a file. A rejected hunk is restored to the original lines in the review document.
+	 */
+	async decideHunk(file: ChangesetFile, key: string, decision: 'accepted' | 'rejected') {
+		const hunk = this.reviewHunks(file).find(h => h.key === key);
+		if (!hunk) { return; }
+		if (decision === 'accepted') {
+			file.acceptedHunks.add(key);
+		} else {
+			await this.revertHunks(file, [hunk]);
+		}
+		await this.settleHunks(file);
+	}
+
+	/**
+	 * Keeps or reverts every hunk of a file that hasn't been accepted yet.
+	 */
+	async decideRemainingHunks(file: ChangesetFile, decision: 'accepted' | 'rejected') {
+		const remaining = this.reviewHunks(file).filter(h => !h.accepted);
+		if (decision === 'accepted') {
+			remaining.forEach(h => file.acceptedHunks.add(h.key));
+		} else {
+			await this.revertHunks(file, remaining);
+		}
+		await this.settleHunks(file);
+	}
+
+	async showFile(file: ChangesetFile) {
+		const name = path.basename(file.filePath);
+		const diffTitle = file.kind === 'create' ? `Review New File ${name}`
+			: file.kind === 'delete' ? `Review Deletion of ${name}`
+			: file.kind === 'rename' ? `Review Rename of ${path.basename(file.oldPath!)} to ${name}`
+			: `Review Changes for ${name}`;
+		await vscode.commands.executeCommand('vscode.diff', file.originalUri, file.patchedUri, diffTitle);
+	}
+
+	/**
+	 * Records the decision for one file. Once every file is decided the accepted ones are applied.
+	 */
+	async decide(file: ChangesetFile, decision: FileDecision) {
+		if (!this.changeset) { return; }
+
+		file.patchedText = this.patchedContent(file);
+		file.decision = decision;
+		await closeReviewTabs([file]);
+		this.refresh();
+
+		if (this.changeset.isDecided) {
+			await this.applyAll();
+		}
+	}
+
+	/**
+	 * Applies every file that wasn't rejected in one workspace edit, so a single undo reverts the whole change.
+	 */
+	async applyAll() {
+		const changeset = this.changeset;
+		if (!changeset) {
+			vscode.window.showErrorMessage("No active Gemini diff to apply.");
+			return;
+		}
+
+		const toApply = changeset.files.filter(file => file.decision !== 'rejected');
+		const unresolved = toApply.filter(file => file.hasConflicts && hasConflictMarkers(this.patchedContent(file)));
+		if (unresolved.length > 0) {
+			await this.reopen(unresolved, `Resolve the conflict markers in ${unresolved.map(file => file.filePath).join(', ')} before accepting.`);
+			return;
+		}
+		if (!await this.reconcileConcurrentEdits(toApply)) { return; }
+
+		try {
+			const edit = new vscode.WorkspaceEdit();
+			const applied: AppliedChangeset['applied'] = [];
+			for (const file of toApply) {
+				const finalContent = this.patchedContent(file);
+				applied.push({ file, content: file.kind === 'delete' ? '' : finalContent });
+
+				switch (file.kind) {
+					case 'create':
+						edit.createFile(file.targetUri, { overwrite: false });
+						edit.insert(file.targetUri, new vscode.Position(0, 0), finalContent);
+						break;
+					case 'delete':
+						edit.deleteFile(file.targetUri, { ignoreIfNotExists: true });
+						break;
+					case 'modify':
+					case 'rename': {
+						const originalDoc = await vscode.workspace.openTextDocument(file.originalUri);
+						const fullRange = new vscode.Range(
+							originalDoc.positionAt(0),
+							originalDoc.positionAt(originalDoc.getText().length)
+						);
+						edit.replace(originalDoc.uri, fullRange, finalContent);
+						// The content is replaced before the move, so the text edit still points at an existing file
+						if (file.kind === 'rename') {
+							edit.renameFile(file.originalUri, file.targetUri, { overwrite: false });
+						}
+						break;
+					}
+				}
+			}
+
+			if (toApply.length > 0 && !await vscode.workspace.applyEdit(edit)) {
+				throw new Error("The workspace edit was not applied.");
+			}
+
+			for (const file of changeset.files) {
+				changeset.conversation.recordDiffOutcome(file.filePath, file.decision === 'rejected' ? 'rejected' : 'applied');
+			}
+			if (applied.length > 0) {
+				this.applyEmitter.fire({ changeset, applied });
+			}
+
+			if (toApply.length > 0) {
+				vscode.window.showInformationMessage(`Changes applied to ${toApply.length} file(s).`);
+			} else {
+				vscode.window.showInformationMessage("All proposed changes were rejected.");
+			}
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			vscode.window.showErrorMessage(`Failed to apply changes: ${errorMessage}`);
+		} finally {
+			await this.clear();
+		}
+	}
+
+	/**
+	 * Checks whether any file changed while its changes were being reviewed and, if so, lets the user merge those
+	 * edits with the proposed content or overwrite them. Returns false if applying should not go ahead.
+	 */
+	private async reconcileConcurrentEdits(files: ChangesetFile[]): Promise<boolean> {
+		const changed: { file: ChangesetFile, current: string }[] = [];
+		for (const file of files) {
+			if (file.kind === 'create') {
+				if (await fileExists(file.targetUri)) {
+					changed.push({ file, current: (await vscode.workspace.openTextDocument(file.targetUri)).getText() });
+				}
+				continue;
+			}
+			const current = (await vscode.workspace.openTextDocument(file.originalUri)).getText();
+			if (current !== file.originalText) {
+				changed.push({ file, current });
+			}
+		}
+		if (changed.length === 0) { return true; }
+
+		const selection = await vscode.window.showWarningMessage(
+			`${changed.map(c => c.file.filePath).join(', ')} changed while the proposed changes were being reviewed. Merge your edits with the proposed changes, or overwrite them?`,
+			{ modal: true }, 'Merge', 'Overwrite'
+		);
+		if (!selection) { return false; }
+
+		const conflicted: ChangesetFile[] = [];
+		for (const { file, current } of changed) {
+			if (file.kind === 'create') {
+				// The new file now exists, so it becomes a change to that file
+				file.kind = 'modify';
+				file.originalUri = file.targetUri;
+			}
+			if (selection === 'Overwrite' || file.kind === 'delete') {
+				file.originalText = current;
+				continue;
+			}
+
+			const merged = mergeThreeWay(file.originalText.split('\n'), current.split('\n'), this.patchedContent(file).split('\n'), MERGE_LABELS);
+			file.originalText = current;
+			file.acceptedHunks.clear();
+			await this.setPatchedContent(file, merged.lines.join('\n'));
+			if (merged.conflicts > 0) {
+				file.hasConflicts = true;
+				conflicted.push(file);
+			}
+		}
+
+		if (conflicted.length > 0) {
+			await this.reopen(conflicted, `Merging left conflicts in ${conflicted.map(file => file.filePath).join(', ')}. Resolve the conflict markers in the review, then accept again.`);
+			return false;
+		}
+		return true;
+	}
+
+	// Puts files back up for review, e.g. when they still have conflicts to resolve
+	private async reopen(files: ChangesetFile[], message: string) {
+		files.forEach(file => file.decision = 'pending');
+		this.refresh();
+		vscode.window.showWarningMessage(message);
+		await this.showFile(files[0]);
+	}
+
+	/**
+	 * Drops the current changeset without touching any files.
+	 */
+	async discard() {
+		if (!this.changeset) { return; }
+		for (const file of this.changeset.files) {
+			this.changeset.conversation.recordDiffOutcome(file.filePath, 'rejected');
+		}
+		await this.clear();
+	}
+
+	private async revertHunks(file: ChangesetFile, hunks: ReviewHunk[]) {
+		const originalLines = file.originalText.split('\n');
+		const patchedLines = this.patchedContent(file).split('\n');
+		// Work from the bottom up so the earlier hunks' line numbers stay valid
+		for (const { change } of [...hunks].sort((a, b) => b.change.modifiedStart - a.change.modifiedStart)) {
+			const restored = originalLines.slice(change.originalStart, change.originalStart + change.originalLength);
+			patchedLines.splice(change.modifiedStart, change.modifiedLength, ...restored);
+		}
+		await this.setPatchedContent(file, patchedLines.join('\n'));
+	}
+
+	// Once every remaining hunk is accepted the file is decided: accepted if anything is left to change
+	private async settleHunks(file: ChangesetFile) {
+		this.hunkEmitter.fire();
+		const hunks = this.reviewHunks(file);
+		if (hunks.some(h => !h.accepted)) { return; }
+		await this.decide(file, hunks.length > 0 || file.kind !== 'modify' ? 'accepted' : 'rejected');
+	}
+
+	private async setPatchedContent(file: ChangesetFile, content: string) {
+		const patchedDoc = await vscode.workspace.openTextDocument(file.patchedUri);
+		const edit = new vscode.WorkspaceEdit();
+		edit.replace(file.patchedUri, new vscode.Range(patchedDoc.positionAt(0), patchedDoc.positionAt(patchedDoc.getText().length)), content);
+		await vscode.workspace.applyEdit(edit);
+		file.patchedText = content;
+	}
+
+	getTreeItem(file: ChangesetFile): vscode.TreeItem {
+		const item = new vscode.TreeItem(path.basename(file.filePath));
+		const directory = path.dirname(file.filePath);
+		const details = [
+			directory === '.' ? '' : directory,
+			file.kind === 'create' ? 'new file' : file.kind === 'delete' ? 'deleted' : file.kind === 'rename' ? `renamed from ${file.oldPath}` : '',
+			file.decision === 'pending' ? '' : file.decision,
+		];
+		item.description = details.filter(detail => detail).join(' · ');
+		item.tooltip = file.filePath;
+		item.contextValue = `changesetFile.${file.decision}`;
+		const pendingIcon = file.kind === 'create' ? 'diff-added' : file.kind === 'delete' ? 'diff-removed' : file.kind === 'rename' ? 'diff-renamed' : 'diff';
+		item.iconPath = new vscode.ThemeIcon(file.decision === 'accepted' ? 'check' : file.decision === 'rejected' ? 'close' : pendingIcon);
+		item.command = { command: 'gemini-diff-generator.reviewFile', title: 'Review Changes', arguments: [file] };
+		return item;
+	}
+
+	getChildren(): ChangesetFile[] {
+		return this.changeset?.files ?? [];
+	}
+
+	private async clear() {
+		const changeset = this.changeset;
+		this.changeset = undefined;
+		this.refresh();
+		if (changeset) {
+			await closeReviewTabs(changeset.files);
+		}
+	}
+
+	private refresh() {
+		vscode.commands.executeCommand('setContext', 'geminiDiffGenerator.changesetActive', this.changeset !== undefined);
+		this.changeEmitter.fire();
+	}
+}
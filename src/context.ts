@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { estimateTokens } from './conversation';
+import { shortenToBudget, SymbolRange } from './truncation';
+import { resolveWorkspacePath } from './workspacePaths';
+
+/**
+ * How a file that doesn't fit the context budget is shortened:
+ * - `outline`: only the first line of each symbol, such as function and class signatures.
+ * - `relevantSymbols`: symbols named in the request in full, and the outline of the rest.
+ * - `headTail`: the start and end of the file.
+ */
+export type TruncationStrategy = 'outline' | 'relevantSymbols' | 'headTail';
+
+export interface ContextSettings {
+	tokenBudget: number;
+	strategy: TruncationStrategy;
+}
+
+export function readContextSettings(): ContextSettings {
+	const config = vscode.workspace.getConfiguration('gemini-diff-generator');
+	return {
+		tokenBudget: config.get<number>('contextTokenBudget', 100000),
+		strategy: config.get<TruncationStrategy>('largeFileStrategy', 'outline'),
+	};
+}
+
+/** A file sent to the model as context. */
+export interface ContextFile {
+	filePath: string;
+	uri: vscode.Uri;
+	/** The whole file, or undefined if it could not be read. */
+	content?: string;
+	/** What goes into the prompt, which may be shortened. */
+	text: string;
+	tokens: number;
+	/** How the file was shortened to fit the budget, if it was. */
+	truncation?: TruncationStrategy;
+}
+
+const TRUNCATION_LABELS: Record<TruncationStrategy, string> = {
+	outline: 'outline only',
+	relevantSymbols: 'relevant symbols only',
+	headTail: 'start and end only',
+};
+
+/**
+ * Reads a context file, preferring the open editor's text so unsaved edits are what the model sees.
+ */
+export async function readContextFile(uri: vscode.Uri, filePath: string): Promise<ContextFile> {
+	try {
+		const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+		const content = openDocument?.getText() ?? Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		return { filePath, uri, content, text: content, tokens: estimateTokens(content) };
+	} catch (e) {
+		console.error(`Could not read file for context: ${filePath}`, e);
+		const text = '[Could not read file content]';
+		return { filePath, uri, text, tokens: estimateTokens(text) };
+	}
+}
+
+/**
+ * Reads context files by their workspace paths. Paths that can't be resolved to a single workspace folder are
+ * left out and returned in `errors`.
+ */
+export async function readWorkspaceContextFiles(filePaths: string[]): Promise<{ files: ContextFile[], errors: string[] }> {
+	const files: ContextFile[] = [];
+	const errors: string[] = [];
+	for (const filePath of filePaths) {
+		try {
+			const { uri, workspacePath } = await resolveWorkspacePath(filePath);
+			files.push(await readContextFile(uri, workspacePath));
+		} catch (e) {
+			errors.push(e instanceof Error ? e.message : String(e));
+		}
+	}
+	return { files, errors };
+}
+
+/** Formats a context file for the prompt, noting when it was shortened. */
+export function formatContextFile(file: ContextFile): string {
+	const note = file.truncation ? ` (shortened: ${TRUNCATION_LABELS[file.truncation]})` : '';
+	return `--- File: ${file.filePath}${note} ---\n${file.text}\n--- End File: ${file.filePath} ---\n\n`;
+}
+
+async function documentSymbols(uri: vscode.Uri): Promise<SymbolRange[]> {
+	const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+		'vscode.executeDocumentSymbolProvider', uri
+	);
+	const flattened: SymbolRange[] = [];
+	const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+		flattened.push({ name: symbol.name, range: 'range' in symbol ? symbol.range : symbol.location.range });
+		if ('children' in symbol) { symbol.children.forEach(visit); }
+	};
+	(symbols ?? []).forEach(visit);
+	return flattened;
+}
+
+/**
+ * Shortens context files until they fit the budget, using the symbols of the open editors' language support.
+ * See `shortenToBudget`.
+ */
+export function fitToBudget(files: ContextFile[], query: string, settings: ContextSettings = readContextSettings()): Promise<ContextFile[]> {
+	return shortenToBudget(files, query, settings, documentSymbols);
+}
@@ -0,0 +1,113 @@
+/**
+ * A single turn in a chat panel's conversation with the model.
+ */
+export interface ConversationTurn {
+	role: 'user' | 'model';
+	text: string;
+}
+
+export type DiffOutcome = 'applied' | 'rejected';
+
+/** Everything a conversation holds, in a form that can be stored and restored. */
+export interface ConversationState {
+	turns: ConversationTurn[];
+	pendingNotes: string[];
+}
+
+// Rough heuristic used to keep the history inside its budget without a round-trip to the API
+const CHARS_PER_TOKEN = 4;
+const SUMMARY_LINE_LENGTH = 160;
+const MAX_SUMMARY_LINES = 20;
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function summarizeRequest(text: string): string {
+	const firstLine = text.trim().split('\n')[0];
+	return firstLine.length > SUMMARY_LINE_LENGTH ? `${firstLine.substring(0, SUMMARY_LINE_LENGTH)}…` : firstLine;
+}
+
+/**
+ * Keeps the history of one chat panel so follow-up requests can refer to earlier answers.
+ * Only the user's request text is stored for past turns; file context is sent fresh with every request.
+ */
+export class Conversation {
+	private turns: ConversationTurn[] = [];
+	private pendingNotes: string[] = [];
+
+	static fromState(state: ConversationState): Conversation {
+		const conversation = new Conversation();
+		conversation.turns = state.turns.map(turn => ({ ...turn }));
+		conversation.pendingNotes = [...state.pendingNotes];
+		return conversation;
+	}
+
+	get isEmpty(): boolean {
+		return this.turns.length === 0;
+	}
+
+	toState(): ConversationState {
+		return { turns: this.turns.map(turn => ({ ...turn })), pendingNotes: [...this.pendingNotes] };
+	}
+
+	/**
+	 * Notes what happened to a proposed diff; it is reported to the model with the next request.
+	 */
+	recordDiffOutcome(filePath: string, outcome: DiffOutcome) {
+		this.pendingNotes.push(`The diff you proposed for ${filePath} was ${outcome} by the user.`);
+	}
+
+	/**
+	 * Stores a completed exchange. Pending diff notes are folded into the user turn they were sent with.
+	 */
+	addExchange(userText: string, modelText: string) {
+		this.turns.push({ role: 'user', text: this.withNotes(userText) });
+		this.turns.push({ role: 'model', text: modelText });
+		this.pendingNotes = [];
+	}
+
+	reset() {
+		this.turns = [];
+		this.pendingNotes = [];
+	}
+
+	/**
+	 * Builds the turns to send for a new request. The oldest turns are dropped once the history exceeds
+	 * `tokenBudget`, and the requests they contained are summarized at the start of the retained history.
+	 */
+	toTurns(prompt: string, tokenBudget: number): ConversationTurn[] {
+		let remaining = tokenBudget;
+		let firstKept = this.turns.length;
+		while (firstKept > 0) {
+			const cost = estimateTokens(this.turns[firstKept - 1].text);
+			if (cost > remaining) { break; }
+			remaining -= cost;
+			firstKept--;
+		}
+		// The history must start with a user turn
+		if (firstKept < this.turns.length && this.turns[firstKept].role === 'model') {
+			firstKept++;
+		}
+
+		const kept = this.turns.slice(firstKept).map(turn => ({ ...turn }));
+		const dropped = this.turns.slice(0, firstKept).filter(turn => turn.role === 'user');
+		if (dropped.length > 0) {
+			const summary = dropped.slice(-MAX_SUMMARY_LINES).map(turn => `- ${summarizeRequest(turn.text)}`).join('\n');
+			const preface = `(Older parts of this conversation were trimmed. Earlier, the user asked:\n${summary})\n\n`;
+			if (kept.length > 0) {
+				kept[0].text = preface + kept[0].text;
+			} else {
+				prompt = preface + prompt;
+			}
+		}
+
+		kept.push({ role: 'user', text: this.withNotes(prompt) });
+		return kept;
+	}
+
+	private withNotes(text: string): string {
+		if (this.pendingNotes.length === 0) { return text; }
+		return `${this.pendingNotes.join('\n')}\n\n${text}`;
+	}
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { FixRequest } from './prompts';
+
+// How long to wait for language servers to re-check a file after a fix is applied
+const RECHECK_TIMEOUT_MS = 5000;
+
+/** Errors and warnings for a file, optionally only those touching `range`. */
+export function fixableDiagnostics(uri: vscode.Uri, range?: vscode.Range): vscode.Diagnostic[] {
+	return vscode.languages.getDiagnostics(uri).filter(diagnostic =>
+		diagnostic.severity <= vscode.DiagnosticSeverity.Warning && (!range || diagnostic.range.intersection(range) !== undefined));
+}
+
+function diagnosticCode(diagnostic: vscode.Diagnostic): string | undefined {
+	const code = diagnostic.code;
+	return code === undefined ? undefined : typeof code === 'object' ? String(code.value) : String(code);
+}
+
+/**
+ * Identifies a diagnostic regardless of where it is, so it can be recognized after a fix moves lines around.
+ */
+export function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+	return `${diagnostic.source ?? ''}|${diagnosticCode(diagnostic) ?? ''}|${diagnostic.message}`;
+}
+
+export function formatDiagnostic(diagnostic: vscode.Diagnostic): string {
+	const { start, end } = diagnostic.range;
+	const severity = vscode.DiagnosticSeverity[diagnostic.severity].toLowerCase();
+	const code = diagnosticCode(diagnostic);
+	const origin = [diagnostic.source, code].filter(Boolean).join(' ');
+	return `Lines ${start.line + 1}:${start.character + 1}-${end.line + 1}:${end.character + 1} ${severity}${origin ? ` [${origin}]` : ''}: ${diagnostic.message}`;
+}
+
+/**
+ * Asks the model to fix the problems VS Code reports for a file.
+ */
+export function buildFixDiagnosticsRequest(filePath: string, content: string, diagnostics: vscode.Diagnostic[]): FixRequest {
+	return {
+		context: `VS Code reports these problems in ${filePath} (line and column numbers are 1-based):
+${diagnostics.map(diagnostic => `- ${formatDiagnostic(diagnostic)}`).join('\n')}
+
+This is the current content of ${filePath}:
+--- File: ${filePath} ---
+${content}
+--- End File: ${filePath} ---
+
+`,
+		request: `Fix these problems with as small a change as possible, without changing unrelated code. Briefly explain the cause of each.
+
+`,
+		outputFormat: `Put the fix in a single Markdown code block with the language identifier 'diff', using the headers '--- a/${filePath}' and '+++ b/${filePath}'.
+Copy every context and removed line exactly from the content above, including indentation, and use correct @@ line numbers.`,
+	};
+}
+
+/**
+ * Resolves with the file's diagnostics once they next change, or after a timeout if they don't.
+ */
+export function recheckDiagnostics(uri: vscode.Uri): Promise<vscode.Diagnostic[]> {
+	return new Promise(resolve => {
+		const finish = () => {
+			clearTimeout(timeout);
+			subscription.dispose();
+			resolve(fixableDiagnostics(uri));
+		};
+		const timeout = setTimeout(finish, RECHECK_TIMEOUT_MS);
+		const subscription = vscode.languages.onDidChangeDiagnostics(event => {
+			if (event.uris.some(changed => changed.toString() === uri.toString())) { finish(); }
+		});
+	});
+}
+
+/**
+ * Offers "Fix with Gemini" on errors and warnings.
+ */
+export class FixDiagnosticsCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+		const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning);
+		if (diagnostics.length === 0) { return []; }
+
+		const action = new vscode.CodeAction(diagnostics.length === 1 ? 'Fix with Gemini' : `Fix ${diagnostics.length} problems with Gemini`, vscode.CodeActionKind.QuickFix);
+		action.diagnostics = diagnostics;
+		action.command = { command: 'gemini-diff-generator.fixDiagnostics', title: action.title, arguments: [document.uri, diagnostics] };
+		return [action];
+	}
+}
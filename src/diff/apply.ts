@@ -0,0 +1,181 @@
+import { expectedLines, HunkCandidate, rankHunkCandidates, replacementLines } from './match';
+import { Hunk } from './parse';
+
+/** A range of lines as 0-based indexes, with `end` exclusive. */
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+/** Where a hunk was found in the original and what it turns those lines into. */
+export interface HunkPlacement {
+	hunk: Hunk;
+	/** 0-based index of the first original line the hunk replaces. */
+	start: number;
+	/** Number of original lines the hunk replaces. */
+	length: number;
+	newLines: string[];
+	confidence: number;
+}
+
+/**
+ * Why a hunk could not be placed:
+ * - `noContextMatch`: nothing in the file resembles the hunk's context and removed lines.
+ * - `ambiguous`: several places match equally well and the @@ header doesn't say which one is meant.
+ * - `overlap`: every place it matches is already changed by an earlier hunk.
+ * - `outOfScope`: it only matches where it would change lines outside the range the diff is limited to.
+ */
+export type HunkFailureReason = 'noContextMatch' | 'ambiguous' | 'overlap' | 'outOfScope';
+
+export interface HunkResult {
+	hunk: Hunk;
+	/** Unset when the hunk could not be placed. */
+	placement?: HunkPlacement;
+	/** Set when the hunk could not be placed. */
+	failure?: HunkFailureReason;
+}
+
+export interface ApplyResult {
+	content: string;
+	appliedHunks: number;
+	totalHunks: number;
+	/** One entry per hunk, in the order of the diff. */
+	results: HunkResult[];
+}
+
+// Candidates closer together than this are considered equally good
+const AMBIGUITY_MARGIN = 0.001;
+
+function overlaps(a: { start: number, length: number }, b: { start: number, length: number }): boolean {
+	const aEnd = a.start + a.length;
+	const bEnd = b.start + b.length;
+	if (a.length === 0 || b.length === 0) {
+		// An insertion only conflicts with a hunk that replaces the lines around it
+		return (a.start > b.start && a.start < bEnd) || (b.start > a.start && b.start < aEnd) || a.start === b.start;
+	}
+	return a.start < bEnd && b.start < aEnd;
+}
+
+/**
+ * Whether the lines a hunk adds or removes fall within `scope` when it is placed at `index`.
+ * Its leading and trailing context lines may lie outside.
+ */
+function changesWithin(hunk: Hunk, index: number, length: number, scope: LineRange): boolean {
+	const changed = hunk.lines.map(line => line.type !== 'context');
+	const leading = changed.indexOf(true);
+	if (leading === -1) { return true; }
+	const trailing = changed.length - 1 - changed.lastIndexOf(true);
+	return index + leading >= scope.start && index + length - trailing <= scope.end;
+}
+
+function isAmbiguous(candidates: HunkCandidate[], hintIndex: number | undefined): boolean {
+	if (candidates.length < 2 || candidates[0].confidence - candidates[1].confidence > AMBIGUITY_MARGIN) { return false; }
+	// With a hint, the closer of two equally good matches wins unless both are the same distance away
+	return hintIndex === undefined || Math.abs(candidates[0].index - hintIndex) === Math.abs(candidates[1].index - hintIndex);
+}
+
+/**
+ * Finds where each hunk applies. The @@ line numbers are used as a starting point and shifted by however far off
+ * the previous hunks turned out to be. Hunks that can't be placed unambiguously without overlapping an earlier
+ * hunk are left unplaced, with the reason recorded. With a `scope`, only places where the hunk's changes stay within it
+ * are considered.
+ */
+export function locateHunks(sourceLines: string[], hunks: Hunk[], scope?: LineRange): HunkResult[] {
+	const placements: HunkPlacement[] = [];
+	const results: HunkResult[] = [];
+	let drift = 0;
+
+	for (const hunk of hunks) {
+		const length = expectedLines(hunk).length;
+		let hintIndex: number | undefined;
+		if (hunk.oldStart !== undefined) {
+			// A pure insertion's header names the line it goes after
+			hintIndex = (length === 0 ? hunk.oldStart : hunk.oldStart - 1) + drift;
+		}
+
+		const ranked = rankHunkCandidates(sourceLines, hunk, hintIndex);
+		const inScope = scope ? ranked.filter(c => changesWithin(hunk, c.index, length, scope)) : ranked;
+		const available = inScope.filter(c => !placements.some(p => overlaps(p, { start: c.index, length })));
+		if (ranked.length === 0) {
+			results.push({ hunk, failure: 'noContextMatch' });
+			continue;
+		}
+		if (inScope.length === 0) {
+			results.push({ hunk, failure: 'outOfScope' });
+			continue;
+		}
+		if (available.length === 0) {
+			results.push({ hunk, failure: 'overlap' });
+			continue;
+		}
+		if (isAmbiguous(available, hintIndex)) {
+			results.push({ hunk, failure: 'ambiguous' });
+			continue;
+		}
+
+		const candidate = available[0];
+		const placement: HunkPlacement = {
+			hunk,
+			start: candidate.index,
+			length,
+			newLines: replacementLines(sourceLines, candidate.index, hunk),
+			confidence: candidate.confidence,
+		};
+		placements.push(placement);
+		results.push({ hunk, placement });
+		if (hintIndex !== undefined) {
+			drift += candidate.index - hintIndex;
+		}
+	}
+	return results;
+}
+
+/**
+ * Rebuilds the file from its original lines with `placements` applied.
+ */
+export function renderPlacements(sourceLines: string[], placements: HunkPlacement[]): string[] {
+	const sorted = [...placements].sort((a, b) => a.start - b.start);
+	const patchedLines: string[] = [];
+	let next = 0;
+	for (const placement of sorted) {
+		patchedLines.push(...sourceLines.slice(next, placement.start));
+		patchedLines.push(...placement.newLines);
+		next = placement.start + placement.length;
+	}
+	patchedLines.push(...sourceLines.slice(next));
+	return patchedLines;
+}
+
+// Adds or drops the final newline if a hunk that reaches the end of the file says which way it should be
+function applyFinalNewline(originalLines: string[], placements: HunkPlacement[], patchedLines: string[]) {
+	const hasFinalNewline = originalLines[originalLines.length - 1] === '';
+	const lastLine = hasFinalNewline ? originalLines.length - 1 : originalLines.length;
+	const atEnd = placements.find(p => p.start + p.length >= lastLine && (p.hunk.oldNoNewline || p.hunk.newNoNewline));
+	if (!atEnd) { return; }
+	const endsWithNewline = patchedLines[patchedLines.length - 1] === '';
+	if (atEnd.hunk.newNoNewline && endsWithNewline) {
+		patchedLines.pop();
+	} else if (!atEnd.hunk.newNoNewline && !endsWithNewline) {
+		patchedLines.push('');
+	}
+}
+
+/**
+ * Applies as many hunks as can be located in `originalContent`. Hunks that cannot be found are skipped.
+ * Lines are matched without their line endings, and the result keeps the original's CRLF or LF endings.
+ */
+export function applyHunks(originalContent: string, hunks: Hunk[], scope?: LineRange): ApplyResult {
+	const eol = originalContent.includes('\r\n') ? '\r\n' : '\n';
+	const originalLines = originalContent.split('\n').map(line => line.endsWith('\r') ? line.slice(0, -1) : line);
+	const results = locateHunks(originalLines, hunks, scope);
+	const placements = results.flatMap(result => result.placement ? [result.placement] : []);
+	const patchedLines = renderPlacements(originalLines, placements);
+	applyFinalNewline(originalLines, placements, patchedLines);
+
+	return {
+		content: patchedLines.join(eol),
+		appliedHunks: placements.length,
+		totalHunks: hunks.length,
+		results,
+	};
+}
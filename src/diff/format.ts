@@ -0,0 +1,63 @@
+import { diffLines } from './lineDiff';
+import { Hunk, HunkLine } from './parse';
+
+/**
+ * Writes a hunk back out in unified diff form. The header counts are recomputed from the hunk's lines.
+ */
+export function formatHunk(hunk: Hunk): string {
+	const oldCount = hunk.lines.filter(line => line.type !== 'add').length;
+	const newCount = hunk.lines.filter(line => line.type !== 'remove').length;
+	const header = `@@ -${hunk.oldStart ?? 1},${oldCount} +${hunk.newStart ?? hunk.oldStart ?? 1},${newCount} @@`;
+	const body = hunk.lines.map(line => (line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ') + line.content);
+	return [header, ...body].join('\n');
+}
+
+function toLines(text: string): string[] {
+	return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Creates a unified diff that turns `oldText` into `newText`. An unset path is written as `/dev/null`,
+ * which marks a created or deleted file.
+ */
+export function createUnifiedDiff(oldPath: string | undefined, newPath: string | undefined, oldText: string, newText: string, contextLines = 3): string {
+	const oldLines = toLines(oldText);
+	const newLines = toLines(newText);
+	const changes = diffLines(oldLines, newLines);
+
+	const hunks: Hunk[] = [];
+	for (let i = 0; i < changes.length;) {
+		// Changes whose context would touch are merged into one hunk
+		let j = i;
+		while (j + 1 < changes.length && changes[j + 1].originalStart - (changes[j].originalStart + changes[j].originalLength) <= 2 * contextLines) {
+			j++;
+		}
+
+		const first = changes[i];
+		const last = changes[j];
+		const start = Math.max(0, first.originalStart - contextLines);
+		const end = Math.min(oldLines.length, last.originalStart + last.originalLength + contextLines);
+		const lines: HunkLine[] = [];
+		let index = start;
+		for (const change of changes.slice(i, j + 1)) {
+			while (index < change.originalStart) { lines.push({ type: 'context', content: oldLines[index++] }); }
+			oldLines.slice(change.originalStart, change.originalStart + change.originalLength).forEach(content => lines.push({ type: 'remove', content }));
+			newLines.slice(change.modifiedStart, change.modifiedStart + change.modifiedLength).forEach(content => lines.push({ type: 'add', content }));
+			index = change.originalStart + change.originalLength;
+		}
+		while (index < end) { lines.push({ type: 'context', content: oldLines[index++] }); }
+
+		// An empty range is numbered by the line before it, as in `@@ -0,0 +1,3 @@`
+		const newStart = start + (first.modifiedStart - first.originalStart);
+		const hasOld = lines.some(line => line.type !== 'add');
+		const hasNew = lines.some(line => line.type !== 'remove');
+		hunks.push({ oldStart: hasOld ? start + 1 : start, newStart: hasNew ? newStart + 1 : newStart, lines });
+		i = j + 1;
+	}
+
+	return [
+		`--- ${oldPath === undefined ? '/dev/null' : `a/${oldPath}`}`,
+		`+++ ${newPath === undefined ? '/dev/null' : `b/${newPath}`}`,
+		...hunks.map(formatHunk),
+	].join('\n');
+}
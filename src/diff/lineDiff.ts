@@ -0,0 +1,54 @@
+import DiffMatchPatch = require('diff-match-patch');
+
+/** A run of lines that differs between two versions of a file. Starts are 0-based line indexes. */
+export interface LineChange {
+	originalStart: number;
+	originalLength: number;
+	modifiedStart: number;
+	modifiedLength: number;
+}
+
+/**
+ * Computes the changed regions between two versions of a file, line by line.
+ */
+export function diffLines(original: string[], modified: string[]): LineChange[] {
+	// Encode each distinct line as one character so diff-match-patch diffs whole lines
+	const lineCodes = new Map<string, string>();
+	const encode = (lines: string[]) => lines.map(line => {
+		let code = lineCodes.get(line);
+		if (code === undefined) {
+			code = String.fromCharCode(lineCodes.size + 1);
+			lineCodes.set(line, code);
+		}
+		return code;
+	}).join('');
+
+	const dmp = new DiffMatchPatch();
+	dmp.Diff_Timeout = 0;
+	const diffs = dmp.diff_main(encode(original), encode(modified), false);
+
+	const changes: LineChange[] = [];
+	let current: LineChange | undefined;
+	let originalIndex = 0;
+	let modifiedIndex = 0;
+	for (const [operation, text] of diffs) {
+		if (operation === DiffMatchPatch.DIFF_EQUAL) {
+			current = undefined;
+			originalIndex += text.length;
+			modifiedIndex += text.length;
+			continue;
+		}
+		if (!current) {
+			current = { originalStart: originalIndex, originalLength: 0, modifiedStart: modifiedIndex, modifiedLength: 0 };
+			changes.push(current);
+		}
+		if (operation === DiffMatchPatch.DIFF_DELETE) {
+			current.originalLength += text.length;
+			originalIndex += text.length;
+		} else {
+			current.modifiedLength += text.length;
+			modifiedIndex += text.length;
+		}
+	}
+	return changes;
+}
@@ -0,0 +1,163 @@
+import DiffMatchPatch = require('diff-match-patch');
+import { Hunk } from './parse';
+
+/** A place in the source where a hunk could apply, and how closely the source matches the hunk there. */
+export interface HunkCandidate {
+	/** 0-based index of the first source line the hunk replaces. */
+	index: number;
+	/** 1 for an exact match, lower the more the source differs from the hunk's context lines. */
+	confidence: number;
+}
+
+// Candidates below this confidence are not offered at all
+export const MIN_CONFIDENCE = 0.7;
+// How many of the best whitespace-insensitive positions are refined with fuzzy matching
+const COARSE_CANDIDATES = 8;
+// How far around the @@ line hint positions are always considered
+const HINT_WINDOW = 3;
+// Weight of the distance to the hint when ranking candidates of similar confidence
+const PROXIMITY_WEIGHT = 0.05;
+
+const WHITESPACE_MATCH = 0.95;
+
+const dmp = new DiffMatchPatch();
+
+export function normalizeWhitespace(line: string): string {
+	return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Scores how alike two lines are, ignoring indentation and runs of whitespace first, then falling back to edit distance.
+ */
+function lineSimilarity(source: string, expected: string): number {
+	if (source === expected) { return 1; }
+	const a = normalizeWhitespace(source);
+	const b = normalizeWhitespace(expected);
+	if (a === b) { return WHITESPACE_MATCH; }
+	if (a.length === 0 || b.length === 0) { return 0; }
+
+	const diffs = dmp.diff_main(a, b, false);
+	const distance = dmp.diff_levenshtein(diffs);
+	return Math.max(0, 1 - distance / Math.max(a.length, b.length)) * WHITESPACE_MATCH;
+}
+
+/** The lines a hunk expects to find in the source: its context and removed lines, in order. */
+export function expectedLines(hunk: Hunk): string[] {
+	return hunk.lines.filter(line => line.type !== 'add').map(line => line.content);
+}
+
+/**
+ * Ranks the places in `sourceLines` where `hunk` could apply, best first. `hintIndex` is the 0-based line the hunk
+ * is expected at, usually taken from its @@ header. Only candidates with at least `MIN_CONFIDENCE` are returned.
+ * Context lines may match approximately, but removed lines must match apart from whitespace, so a hunk never deletes
+ * a line it didn't name.
+ */
+export function rankHunkCandidates(sourceLines: string[], hunk: Hunk, hintIndex?: number): HunkCandidate[] {
+	const expected = expectedLines(hunk);
+	const removed = hunk.lines.filter(line => line.type !== 'add').map(line => line.type === 'remove');
+
+	// A pure insertion has nothing to match, so the header is all there is to go on
+	if (expected.length === 0) {
+		if (hintIndex === undefined || hintIndex < 0 || hintIndex > sourceLines.length) { return []; }
+		return [{ index: hintIndex, confidence: MIN_CONFIDENCE }];
+	}
+	if (expected.length > sourceLines.length) { return []; }
+
+	// Coarse pass: count whitespace-insensitive line matches at every position
+	const normalizedSource = sourceLines.map(normalizeWhitespace);
+	const normalizedExpected = expected.map(normalizeWhitespace);
+	const lastIndex = sourceLines.length - expected.length;
+	const coarse: { index: number, score: number }[] = [];
+	for (let i = 0; i <= lastIndex; i++) {
+		let matches = 0;
+		for (let j = 0; j < expected.length; j++) {
+			if (normalizedSource[i + j] === normalizedExpected[j]) { matches++; }
+		}
+		if (matches > 0) { coarse.push({ index: i, score: matches }); }
+	}
+	coarse.sort((a, b) => b.score - a.score);
+
+	const positions = new Set(coarse.slice(0, COARSE_CANDIDATES).map(c => c.index));
+	if (hintIndex !== undefined) {
+		for (let i = hintIndex - HINT_WINDOW; i <= hintIndex + HINT_WINDOW; i++) {
+			if (i >= 0 && i <= lastIndex) { positions.add(i); }
+		}
+	}
+
+	// Fine pass: fuzzy similarity of every expected line at the remaining positions
+	const candidates: HunkCandidate[] = [];
+	for (const index of positions) {
+		if (removed.some((isRemoved, j) => isRemoved && normalizedSource[index + j] !== normalizedExpected[j])) { continue; }
+		let total = 0;
+		for (let j = 0; j < expected.length; j++) {
+			total += lineSimilarity(sourceLines[index + j], expected[j]);
+		}
+		const confidence = total / expected.length;
+		if (confidence >= MIN_CONFIDENCE) {
+			candidates.push({ index, confidence });
+		}
+	}
+
+	const rank = (candidate: HunkCandidate) => hintIndex === undefined
+		? candidate.confidence
+		: candidate.confidence + PROXIMITY_WEIGHT / (1 + Math.abs(candidate.index - hintIndex));
+	return candidates.sort((a, b) => rank(b) - rank(a));
+}
+
+function leadingWhitespace(line: string): string {
+	return line.match(/^\s*/)![0];
+}
+
+interface IndentPair {
+	/** Position of the matched line within the hunk. */
+	position: number;
+	sourceIndent: string;
+	hunkIndent: string;
+}
+
+function reindent(line: string, sourceIndent: string, hunkIndent: string): string {
+	if (sourceIndent === hunkIndent || line.trim() === '') { return line; }
+	if (sourceIndent.startsWith(hunkIndent)) {
+		return sourceIndent.substring(hunkIndent.length) + line;
+	}
+	const extra = hunkIndent.substring(sourceIndent.length);
+	if (hunkIndent.startsWith(sourceIndent) && line.startsWith(extra)) {
+		return line.substring(extra.length);
+	}
+	return line;
+}
+
+/**
+ * Builds the lines that replace the matched source lines. Context lines keep the source's exact text, and each added
+ * line is shifted by the indentation difference the model made on the matched line indented most like it.
+ */
+export function replacementLines(sourceLines: string[], index: number, hunk: Hunk): string[] {
+	// Pairs of source and hunk indentation for lines that match apart from whitespace
+	const indentPairs: IndentPair[] = [];
+	let offset = 0;
+	hunk.lines.forEach((line, position) => {
+		if (line.type === 'add') { return; }
+		const source = sourceLines[index + offset++];
+		if (source !== undefined && source.trim() !== '' && source.trim() === line.content.trim()) {
+			indentPairs.push({ position, sourceIndent: leadingWhitespace(source), hunkIndent: leadingWhitespace(line.content) });
+		}
+	});
+
+	const result: string[] = [];
+	offset = 0;
+	hunk.lines.forEach((line, position) => {
+		if (line.type === 'add') {
+			const indent = leadingWhitespace(line.content).length;
+			const distance = (pair: IndentPair) => Math.abs(pair.hunkIndent.length - indent) * hunk.lines.length + Math.abs(pair.position - position);
+			let closest: IndentPair | undefined;
+			for (const pair of indentPairs) {
+				if (!closest || distance(pair) < distance(closest)) { closest = pair; }
+			}
+			result.push(closest ? reindent(line.content, closest.sourceIndent, closest.hunkIndent) : line.content);
+		} else {
+			const source = sourceLines[index + offset++];
+			if (line.type === 'context') { result.push(source ?? line.content); }
+		}
+	});
+	return result;
+}
@@ -0,0 +1,90 @@
+import { diffLines, LineChange } from './lineDiff';
+
+export interface MergeResult {
+	lines: string[];
+	/** Number of regions both sides changed differently. They are written out with conflict markers. */
+	conflicts: number;
+}
+
+export interface MergeLabels {
+	ours: string;
+	base: string;
+	theirs: string;
+}
+
+interface SideChange extends LineChange {
+	side: 'ours' | 'theirs';
+}
+
+/**
+ * Maps a line index in the base to the matching index on one side, for an index at the edge of a merge region.
+ * At the start of a region, an insertion made exactly there belongs to the region and is not skipped.
+ */
+function mapIndex(changes: LineChange[], baseIndex: number, edge: 'start' | 'end'): number {
+	let delta = 0;
+	for (const change of changes) {
+		const end = change.originalStart + change.originalLength;
+		const isInsertionAtEdge = change.originalLength === 0 && change.originalStart === baseIndex;
+		if (end > baseIndex || (edge === 'start' && isInsertionAtEdge)) { break; }
+		delta += change.modifiedLength - change.originalLength;
+	}
+	return baseIndex + delta;
+}
+
+/**
+ * Merges two sets of edits to the same base, line by line. Regions changed by only one side take that side's lines;
+ * regions both sides changed identically are taken once; anything else becomes a conflict. Changes that touch
+ * are treated as overlapping, like diff3 does.
+ */
+export function mergeThreeWay(base: string[], ours: string[], theirs: string[], labels: MergeLabels): MergeResult {
+	const oursChanges = diffLines(base, ours);
+	const theirsChanges = diffLines(base, theirs);
+	const all: SideChange[] = [
+		...oursChanges.map(change => ({ ...change, side: 'ours' as const })),
+		...theirsChanges.map(change => ({ ...change, side: 'theirs' as const })),
+	].sort((a, b) => a.originalStart - b.originalStart);
+
+	const lines: string[] = [];
+	let conflicts = 0;
+	let baseIndex = 0;
+
+	for (let i = 0; i < all.length;) {
+		const start = all[i].originalStart;
+		let end = start + all[i].originalLength;
+		const sides = new Set([all[i].side]);
+		let j = i + 1;
+		while (j < all.length && all[j].originalStart <= end) {
+			end = Math.max(end, all[j].originalStart + all[j].originalLength);
+			sides.add(all[j].side);
+			j++;
+		}
+
+		lines.push(...base.slice(baseIndex, start));
+		const oursLines = ours.slice(mapIndex(oursChanges, start, 'start'), mapIndex(oursChanges, end, 'end'));
+		const theirsLines = theirs.slice(mapIndex(theirsChanges, start, 'start'), mapIndex(theirsChanges, end, 'end'));
+
+		if (!sides.has('theirs')) {
+			lines.push(...oursLines);
+		} else if (!sides.has('ours') || oursLines.join('\n') === theirsLines.join('\n')) {
+			lines.push(...theirsLines);
+		} else {
+			conflicts++;
+			lines.push(
+				`<<<<<<< ${labels.ours}`, ...oursLines,
+				`||||||| ${labels.base}`, ...base.slice(start, end),
+				'=======', ...theirsLines,
+				`>>>>>>> ${labels.theirs}`
+			);
+		}
+
+		baseIndex = end;
+		i = j;
+	}
+	lines.push(...base.slice(baseIndex));
+	return { lines, conflicts };
+}
+
+/** Whether text still contains the markers `mergeThreeWay` writes for a conflict. */
+export function hasConflictMarkers(text: string): boolean {
+	return /^<<<<<<< /m.test(text) && /^>>>>>>> /m.test(text);
+}
@@ -0,0 +1,339 @@
+export interface HunkLine { type: 'add' | 'remove' | 'context'; content: string; }
+
+/**
+ * A hunk and the ranges from its `@@ -l,s +l,s @@` header, when the header has them.
+ * Line numbers are 1-based as in the header; models often get them slightly wrong, so treat them as hints.
+ */
+export interface Hunk {
+	oldStart?: number;
+	oldLines?: number;
+	newStart?: number;
+	newLines?: number;
+	lines: HunkLine[];
+	/** Set when `\ No newline at end of file` follows the hunk's last line on the old side. */
+	oldNoNewline?: boolean;
+	/** Set when `\ No newline at end of file` follows the hunk's last line on the new side. */
+	newNoNewline?: boolean;
+}
+
+export type FilePatchKind = 'modify' | 'create' | 'delete' | 'rename';
+
+/**
+ * The changes to a single file. Paths are taken from the `---`/`+++` headers with their `a/`/`b/` prefixes removed;
+ * `/dev/null` leaves the path unset, so a created file has no `oldPath` and a deleted file has no `newPath`.
+ */
+export interface FilePatch {
+	kind: FilePatchKind;
+	oldPath?: string;
+	newPath?: string;
+	hunks: Hunk[];
+}
+
+/**
+ * Something wrong with a diff. Errors mean the hunk was left out, since applying it could corrupt the file;
+ * warnings mean the diff was repaired and the result is worth a closer look.
+ */
+export interface DiffProblem {
+	severity: 'error' | 'warning';
+	/** 1-based line of the diff the problem was found at. */
+	line: number;
+	filePath?: string;
+	/** 1-based number of the hunk within its file. */
+	hunk?: number;
+	message: string;
+}
+
+export interface ParsedDiff {
+	patches: FilePatch[];
+	problems: DiffProblem[];
+}
+
+const DEV_NULL = '/dev/null';
+const NO_NEWLINE_MARKER = '\\';
+
+// A hunk being read, with what is needed to check it once it ends
+interface OpenHunk {
+	hunk: Hunk;
+	patch: FilePatch;
+	number: number;
+	headerLine: number;
+	/** Body lines that were repaired, by kind of repair. */
+	repairs: Map<string, number>;
+	/** Unprefixed lines read as context, which may turn out to be the rest of a wrapped line. */
+	fragments: HunkLine[];
+}
+
+function parseHeaderPath(line: string): string | undefined {
+	// Drop the marker, any trailing timestamp and the a/ or b/ prefix
+	const headerPath = line.substring(4).split('\t')[0].trim();
+	return headerPath === DEV_NULL ? undefined : headerPath.replace(/^[ab]\//, '');
+}
+
+function parseHunkHeader(line: string): Hunk {
+	const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+	if (!match) { return { lines: [] }; }
+	return {
+		oldStart: Number(match[1]),
+		oldLines: match[2] === undefined ? 1 : Number(match[2]),
+		newStart: Number(match[3]),
+		newLines: match[4] === undefined ? 1 : Number(match[4]),
+		lines: [],
+	};
+}
+
+function kindOf(oldPath: string | undefined, newPath: string | undefined): FilePatchKind {
+	if (oldPath === undefined && newPath !== undefined) { return 'create'; }
+	if (oldPath !== undefined && newPath === undefined) { return 'delete'; }
+	return oldPath !== newPath ? 'rename' : 'modify';
+}
+
+function countLines(hunk: Hunk): { old: number, new: number } {
+	return {
+		old: hunk.lines.filter(line => line.type !== 'add').length,
+		new: hunk.lines.filter(line => line.type !== 'remove').length,
+	};
+}
+
+// Whether the header's counts say more lines belong to the hunk
+function expectsMore(hunk: Hunk): boolean {
+	if (hunk.oldLines === undefined || hunk.newLines === undefined) { return false; }
+	const counts = countLines(hunk);
+	return counts.old < hunk.oldLines || counts.new < hunk.newLines;
+}
+
+function isBodyLine(line: string): boolean {
+	return line.startsWith('+') || line.startsWith('-') || line.startsWith(' ');
+}
+
+function isFileHeader(lines: string[], index: number): boolean {
+	return /^diff --git /.test(lines[index]) || (lines[index].startsWith('--- ') && lines[index + 1]?.startsWith('+++ ') === true);
+}
+
+// Whether a body line follows before the next header, so blank lines in between belong to the hunk
+function bodyContinues(lines: string[], index: number): boolean {
+	for (let i = index; i < lines.length; i++) {
+		if (lines[i] === '') { continue; }
+		return isBodyLine(lines[i]) && !isFileHeader(lines, i) && !lines[i].startsWith('@@');
+	}
+	return false;
+}
+
+const REPAIR_MESSAGES: Record<string, (count: number) => string> = {
+	blankContext: count => `${count} blank context line(s) had no leading space and were read as empty lines`,
+	missingPrefix: count => `${count} line(s) had no '+', '-' or ' ' prefix and were read as unchanged context; check that the model did not wrap a long line`,
+	wrappedLine: count => `${count} line(s) had no prefix and were joined to the added or removed line before them, since the model seems to have wrapped a long line`,
+};
+
+// Reads a diff line by line, keeping track of the file and hunk the lines belong to
+class DiffReader {
+	readonly patches: FilePatch[] = [];
+	readonly problems: DiffProblem[] = [];
+	private currentPatch: FilePatch | null = null;
+	private open: OpenHunk | null = null;
+	// Set while reading the extended header lines that follow `diff --git`
+	private gitHeader: FilePatch | null = null;
+
+	constructor(private readonly lines: string[]) { }
+
+	read() {
+		const { lines } = this;
+		for (let i = 0; i < lines.length; i++) {
+			if (this.open && this.readBodyLine(this.open, i)) { continue; }
+			this.finishHunk();
+			i = this.readHeaderLine(i);
+		}
+		this.finishHunk();
+	}
+
+	// Adds a line to the open hunk, or returns false if the line ends it
+	private readBodyLine(open: OpenHunk, i: number): boolean {
+		const { lines } = this;
+		const line = lines[i];
+		const { hunk } = open;
+		// Models overcount more often than they write a file header into a hunk, so headers always end it
+		if (isBodyLine(line) && !isFileHeader(lines, i)) {
+			const type = line.startsWith('+') ? 'add' : line.startsWith('-') ? 'remove' : 'context';
+			hunk.lines.push({ type, content: line.substring(1) });
+			return true;
+		}
+		if (line.startsWith(NO_NEWLINE_MARKER)) {
+			const last = hunk.lines[hunk.lines.length - 1];
+			if (last) {
+				if (last.type !== 'add') { hunk.oldNoNewline = true; }
+				if (last.type !== 'remove') { hunk.newNoNewline = true; }
+			}
+			return true;
+		}
+		if (line === '' && bodyContinues(lines, i + 1)) {
+			hunk.lines.push({ type: 'context', content: '' });
+			open.repairs.set('blankContext', (open.repairs.get('blankContext') ?? 0) + 1);
+			return true;
+		}
+		if (expectsMore(hunk) && line !== '' && !line.startsWith('@@') && !isFileHeader(lines, i) && !line.startsWith('```')) {
+			const fragment: HunkLine = { type: 'context', content: line };
+			hunk.lines.push(fragment);
+			open.fragments.push(fragment);
+			open.repairs.set('missingPrefix', (open.repairs.get('missingPrefix') ?? 0) + 1);
+			return true;
+		}
+		return false;
+	}
+
+	// Reads a line outside any hunk, and returns the index of the last line it used
+	private readHeaderLine(i: number): number {
+		const { lines } = this;
+		const line = lines[i];
+		const gitHeader = this.gitHeader;
+		const gitMatch = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+		if (gitMatch) {
+			this.gitHeader = { kind: kindOf(gitMatch[1], gitMatch[2]), oldPath: gitMatch[1], newPath: gitMatch[2], hunks: [] };
+			this.currentPatch = this.gitHeader;
+			this.patches.push(this.currentPatch);
+		} else if (gitHeader && line.startsWith('rename from ')) {
+			gitHeader.oldPath = line.substring('rename from '.length).trim();
+			gitHeader.kind = kindOf(gitHeader.oldPath, gitHeader.newPath);
+		} else if (gitHeader && line.startsWith('rename to ')) {
+			gitHeader.newPath = line.substring('rename to '.length).trim();
+			gitHeader.kind = kindOf(gitHeader.oldPath, gitHeader.newPath);
+		} else if (gitHeader && line.startsWith('new file mode')) {
+			gitHeader.oldPath = undefined;
+			gitHeader.kind = 'create';
+		} else if (gitHeader && line.startsWith('deleted file mode')) {
+			gitHeader.newPath = undefined;
+			gitHeader.kind = 'delete';
+		} else if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+			// A removed line starting with "-- " also looks like a header, so require the matching +++ line
+			const oldPath = parseHeaderPath(line);
+			const newPath = parseHeaderPath(lines[i + 1]);
+			if (gitHeader) {
+				// The ---/+++ lines of a git diff refine the paths from its `diff --git` line
+				Object.assign(gitHeader, { kind: kindOf(oldPath, newPath), oldPath, newPath });
+			} else {
+				this.currentPatch = { kind: kindOf(oldPath, newPath), oldPath, newPath, hunks: [] };
+				this.patches.push(this.currentPatch);
+			}
+			this.gitHeader = null;
+			return i + 1;
+		} else if (line.startsWith('@@')) {
+			this.gitHeader = null;
+			const open = this.startHunk(parseHunkHeader(line), i + 1);
+			if (open.hunk.oldLines === undefined) {
+				this.report('warning', open, `the hunk header "${line}" has no line numbers, so the hunk is placed by its content alone`);
+			}
+		} else if (this.currentPatch && this.currentPatch.hunks.length === 0 && isBodyLine(line) && !line.startsWith('+++')) {
+			// The model went straight from the file headers to the changes
+			this.gitHeader = null;
+			const open = this.startHunk({ lines: [] }, i + 1);
+			this.report('warning', open, 'the changes have no @@ header, so they are placed by their content alone');
+			this.readBodyLine(open, i);
+		}
+		return i;
+	}
+
+	private startHunk(hunk: Hunk, headerLine: number): OpenHunk {
+		if (!this.currentPatch) {
+			this.currentPatch = { kind: 'modify', hunks: [] };
+			this.patches.push(this.currentPatch);
+		}
+		this.open = { hunk, patch: this.currentPatch, number: this.currentPatch.hunks.length + 1, headerLine, repairs: new Map(), fragments: [] };
+		this.currentPatch.hunks.push(hunk);
+		return this.open;
+	}
+
+	private report(severity: DiffProblem['severity'], open: OpenHunk, message: string) {
+		const { patch, number, headerLine } = open;
+		this.problems.push({ severity, line: headerLine, filePath: patch.newPath ?? patch.oldPath, hunk: number, message });
+	}
+
+	/**
+	 * Joins unprefixed lines back onto the added or removed line before them. Read as context, each piece of a wrapped
+	 * line puts the body one line over its header on both sides, so pieces are joined only while that is the case.
+	 */
+	private joinWrappedLines(open: OpenHunk) {
+		const { hunk, fragments, repairs } = open;
+		if (hunk.oldLines === undefined || hunk.newLines === undefined) { return; }
+		let joined = 0;
+		for (const fragment of fragments) {
+			const counts = countLines(hunk);
+			if (counts.old <= hunk.oldLines || counts.new <= hunk.newLines) { break; }
+			const index = hunk.lines.indexOf(fragment);
+			const previous = hunk.lines[index - 1];
+			if (!previous || previous.type === 'context') { continue; }
+			// Wrapping usually breaks a line at a space and drops it
+			previous.content += /^\s/.test(fragment.content) ? fragment.content : ` ${fragment.content}`;
+			hunk.lines.splice(index, 1);
+			joined++;
+		}
+		if (joined === 0) { return; }
+		const unjoined = (repairs.get('missingPrefix') ?? 0) - joined;
+		if (unjoined > 0) { repairs.set('missingPrefix', unjoined); } else { repairs.delete('missingPrefix'); }
+		repairs.set('wrappedLine', joined);
+	}
+
+	// Checks the hunk that just ended against its header, and drops it if it can't be trusted
+	private finishHunk() {
+		const finished = this.open;
+		this.open = null;
+		if (!finished) { return; }
+		const { hunk, patch } = finished;
+		this.joinWrappedLines(finished);
+		for (const [kind, count] of finished.repairs) {
+			this.report('warning', finished, REPAIR_MESSAGES[kind](count));
+		}
+
+		const drop = (message: string) => {
+			this.report('error', finished, message);
+			patch.hunks.splice(patch.hunks.indexOf(hunk), 1);
+		};
+		if (!hunk.lines.some(line => line.type !== 'context')) {
+			drop('it has no added or removed lines, so it was left out');
+			return;
+		}
+		const counts = countLines(hunk);
+		if (hunk.oldLines === undefined || hunk.newLines === undefined) { return; }
+		if (counts.old === hunk.oldLines && counts.new === hunk.newLines) { return; }
+
+		const lastLine = hunk.lines[hunk.lines.length - 1];
+		if (counts.new < hunk.newLines && lastLine.type === 'remove') {
+			drop(`its header promises ${hunk.newLines} new line(s) but it ends after removing lines, with only ${counts.new}; the diff looks cut off, so the hunk was left out`);
+			return;
+		}
+		this.report('warning', finished, `its header says -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} but the body has ${counts.old} old and ${counts.new} new line(s); the body was used`);
+		hunk.oldLines = counts.old;
+		hunk.newLines = counts.new;
+	}
+}
+
+/**
+ * Parses a unified diff strictly enough to notice when it is damaged, and repairs the mistakes models commonly make:
+ * - CRLF line endings are accepted.
+ * - `\ No newline at end of file` is recorded on the hunk rather than dropped.
+ * - Blank context lines without their leading space are read as context when more of the hunk follows, and so are
+ *   other unprefixed lines while the header counts say the hunk isn't finished. An unprefixed line after an added or
+ *   removed line is joined onto it instead when the counts show it is the rest of a wrapped line.
+ * - Hunks without an `@@` header after the file headers are read as one headerless hunk.
+ * - Header counts that don't match the body are corrected from the body.
+ *
+ * Each repair is reported as a warning. A hunk that ends after removing lines it was meant to replace looks cut off,
+ * so it is left out and reported as an error. Hunks that appear before any file header are collected into a patch
+ * without paths, so callers can fall back to a path they already know. Git's extended headers are understood too,
+ * so pure renames without hunks are kept.
+ */
+export function parseDiff(diff: string): ParsedDiff {
+	const reader = new DiffReader(diff.split('\n').map(line => line.endsWith('\r') ? line.slice(0, -1) : line));
+	reader.read();
+	return { patches: reader.patches, problems: reader.problems };
+}
+
+/**
+ * Splits a unified diff into per-file patches, repairing what can be repaired and leaving out hunks that can't.
+ * Use `parseDiff` to also get the problems that were found.
+ */
+export function parsePatch(diff: string): FilePatch[] {
+	return parseDiff(diff).patches;
+}
+
+export function formatDiffProblem(problem: DiffProblem): string {
+	const where = [problem.filePath, problem.hunk !== undefined ? `hunk ${problem.hunk}` : undefined].filter(Boolean).join(', ');
+	return `${where || `Line ${problem.line}`}: ${problem.message}`;
+}
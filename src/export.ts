@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import { applyPatchHunks, ApproximateMatch, PatchedContent, ProposedDiff } from './changeset';
+import { createUnifiedDiff, formatHunk } from './diff/format';
+import { FilePatchKind, Hunk, parsePatch } from './diff/parse';
+import { extractDiffBlocks, FailureReport } from './repair';
+import { ChatSession, TranscriptEntry } from './sessions';
+import { resolveWorkspacePath } from './workspacePaths';
+
+/** An answer in a session's transcript that contains diffs, with the request it answered. */
+export interface AnswerDiffs {
+	prompt: string;
+	diffs: ProposedDiff[];
+}
+
+/** A combined patch of several diffs, and what could not be put in it. */
+export interface CombinedPatch {
+	patch: string;
+	fileCount: number;
+	reports: FailureReport[];
+	/** Files with hunks that were placed by an approximate match, and so are worth checking in the patch. */
+	approximateMatches: ApproximateMatch[];
+	errors: string[];
+}
+
+interface PatchedFile {
+	kind: FilePatchKind;
+	filePath: string;
+	oldPath?: string;
+	original: string;
+	content: string;
+}
+
+const NO_NEWLINE = '\\ No newline at end of file';
+
+function quoteBlock(text: string): string {
+	return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+function modelEntryToMarkdown(entry: TranscriptEntry, includeThoughts: boolean): string {
+	const parts = ['## Gemini'];
+	const thoughts = String(entry.thoughts ?? '').trim();
+	if (includeThoughts && thoughts) {
+		parts.push(`<details>\n<summary>Thoughts</summary>\n\n${thoughts}\n\n</details>`);
+	}
+	const toolCalls = (entry.toolCalls ?? []) as { call: { name: string, args: unknown }, result?: string }[];
+	if (includeThoughts && toolCalls.length > 0) {
+		const calls = toolCalls.map(({ call, result }) =>
+			`- \`${call.name}\` ${JSON.stringify(call.args)}${result !== undefined ? `\n\n  \`\`\`\n${result.split('\n').map(line => `  ${line}`).join('\n')}\n  \`\`\`` : ''}`);
+		parts.push(`<details>\n<summary>Tool calls (${toolCalls.length})</summary>\n\n${calls.join('\n')}\n\n</details>`);
+	}
+	const answer = String(entry.answer ?? '').trim();
+	parts.push(answer || '_No answer._');
+	if (entry.cancelled) { parts.push('_Generation stopped._'); }
+	return parts.join('\n\n');
+}
+
+/**
+ * Writes a session's transcript as Markdown: each request and answer in order, with apply and verification
+ * reports quoted. Thoughts and tool calls are included in collapsed sections if `includeThoughts` is set.
+ */
+export function sessionToMarkdown(session: ChatSession, includeThoughts: boolean): string {
+	const sections = [`# ${session.title}`, `_Exported ${new Date().toLocaleString()}_`];
+	for (const entry of session.transcript) {
+		switch (entry.type) {
+			case 'user':
+				sections.push(`## Request\n\n${String(entry.text).trim()}`);
+				break;
+			case 'model':
+				sections.push(modelEntryToMarkdown(entry, includeThoughts));
+				break;
+			case 'applyReport': {
+				const report = entry.report as { filePath: string, totalHunks: number, failures: { number: number, reason: string }[] };
+				const failures = report.failures.map(failure => `- Hunk ${failure.number}: ${failure.reason}`).join('\n');
+				sections.push(quoteBlock(`**Apply report:** ${report.failures.length} of ${report.totalHunks} changes could not be applied to ${report.filePath}.\n${failures}`));
+				break;
+			}
+			case 'verificationReport': {
+				const results = entry.results as { label: string, ok: boolean }[];
+				const steps = results.map(result => `- ${result.ok ? '✔' : '✖'} ${result.label}`).join('\n');
+				sections.push(quoteBlock(`**Verification:**\n${steps}`));
+				break;
+			}
+		}
+	}
+	return `${sections.join('\n\n')}\n`;
+}
+
+/** The answers in a session that contain diffs, most recent first. */
+export function answersWithDiffs(session: ChatSession): AnswerDiffs[] {
+	return session.transcript
+		.filter(entry => entry.type === 'model')
+		.map(entry => ({
+			prompt: String(entry.prompt ?? ''),
+			diffs: extractDiffBlocks(String(entry.answer ?? '')).map(diff => {
+				const [patch] = parsePatch(diff);
+				return { filePath: patch?.newPath ?? patch?.oldPath ?? '', diff };
+			}),
+		}))
+		.filter(answer => answer.diffs.length > 0)
+		.reverse();
+}
+
+async function readWorkspaceFile(filePath: string): Promise<string> {
+	const { uri } = await resolveWorkspacePath(filePath);
+	try {
+		return (await vscode.workspace.openTextDocument(uri)).getText();
+	} catch {
+		throw new Error(`File not found in workspace: ${filePath}`);
+	}
+}
+
+// Splits off the final newline, which unified diffs don't show as a line of its own
+function splitFinalNewline(text: string): { body: string, missingNewline: boolean } {
+	if (text === '') { return { body: '', missingNewline: false }; }
+	return text.endsWith('\n') ? { body: text.slice(0, -1), missingNewline: false } : { body: text, missingNewline: true };
+}
+
+// Marks the last line of a side of the file that has no final newline, as git does
+function formatLastHunk(hunk: Hunk, oldMissing: boolean, newMissing: boolean): string {
+	const lines = formatHunk(hunk).split('\n');
+	const lastOld = hunk.lines.map(line => line.type !== 'add').lastIndexOf(true);
+	const lastNew = hunk.lines.map(line => line.type !== 'remove').lastIndexOf(true);
+	const markers = new Set<number>();
+	if (oldMissing) { markers.add(lastOld); }
+	if (newMissing) { markers.add(lastNew); }
+	// Formatted lines are one further on for the @@ header; the later marker goes in first so the earlier index holds
+	for (const index of [...markers].sort((a, b) => b - a)) { lines.splice(index + 2, 0, NO_NEWLINE); }
+	return lines.join('\n');
+}
+
+/**
+ * Writes one file's change in git's format. Hunks are recomputed from the content before and after, so their
+ * headers are always correct whatever the model wrote.
+ */
+function formatFilePatch(file: PatchedFile): string | undefined {
+	const oldPath = file.kind === 'create' ? undefined : file.oldPath ?? file.filePath;
+	const newPath = file.kind === 'delete' ? undefined : file.filePath;
+	const header = [`diff --git a/${oldPath ?? newPath} b/${newPath ?? oldPath}`];
+	if (file.kind === 'create') { header.push('new file mode 100644'); }
+	if (file.kind === 'delete') { header.push('deleted file mode 100644'); }
+	if (file.kind === 'rename') { header.push(`rename from ${oldPath}`, `rename to ${newPath}`); }
+
+	const before = splitFinalNewline(file.original);
+	const after = splitFinalNewline(file.content);
+	const [patch] = parsePatch(createUnifiedDiff(oldPath, newPath, before.body, after.body));
+	const hunks = patch?.hunks ?? [];
+	if (hunks.length === 0) {
+		return file.kind === 'modify' ? undefined : header.join('\n');
+	}
+
+	const oldLineCount = before.body === '' ? 0 : before.body.split('\n').length;
+	const newLineCount = after.body === '' ? 0 : after.body.split('\n').length;
+	const formatted = hunks.map((hunk, index) => {
+		if (index < hunks.length - 1) { return formatHunk(hunk); }
+		const oldCount = hunk.lines.filter(line => line.type !== 'add').length;
+		const newCount = hunk.lines.filter(line => line.type !== 'remove').length;
+		const reachesOldEnd = oldCount > 0 && (hunk.oldStart ?? 1) - 1 + oldCount === oldLineCount;
+		const reachesNewEnd = newCount > 0 && (hunk.newStart ?? 1) - 1 + newCount === newLineCount;
+		return formatLastHunk(hunk, before.missingNewline && reachesOldEnd, after.missingNewline && reachesNewEnd);
+	});
+	return [
+		...header,
+		`--- ${oldPath === undefined ? '/dev/null' : `a/${oldPath}`}`,
+		`+++ ${newPath === undefined ? '/dev/null' : `b/${newPath}`}`,
+		...formatted,
+	].join('\n');
+}
+
+/**
+ * Applies `diffs` to the workspace's current content, without changing it, and writes the result as one patch
+ * that `git apply` accepts. Hunks that don't apply are left out and reported; hunks placed by an approximate match
+ * are kept and reported too. In a multi-root workspace the paths start with the folder's name, so the patch applies
+ * from the folders' common parent.
+ */
+export async function buildCombinedPatch(diffs: ProposedDiff[]): Promise<CombinedPatch> {
+	const files = new Map<string, PatchedFile>();
+	const reports: FailureReport[] = [];
+	const approximateMatches: ApproximateMatch[] = [];
+	const errors: string[] = [];
+	const contentOf = (patched: PatchedContent) => {
+		if (patched.approximate) { approximateMatches.push(patched.approximate); }
+		return patched.content;
+	};
+
+	for (const proposed of diffs) {
+		for (const patch of parsePatch(proposed.diff)) {
+			let filePath = patch.newPath ?? patch.oldPath ?? proposed.filePath;
+			try {
+				filePath = (await resolveWorkspacePath(filePath)).workspacePath;
+				const previous = files.get(filePath);
+				switch (patch.kind) {
+					case 'create': {
+						const added = patch.hunks.flatMap(hunk => hunk.lines.filter(line => line.type === 'add').map(line => line.content));
+						files.set(filePath, { kind: 'create', filePath, original: '', content: added.length > 0 ? `${added.join('\n')}\n` : '' });
+						break;
+					}
+					case 'delete':
+						files.set(filePath, { kind: 'delete', filePath, original: previous?.original ?? await readWorkspaceFile(filePath), content: '' });
+						break;
+					case 'rename': {
+						const oldPath = (await resolveWorkspacePath(patch.oldPath!)).workspacePath;
+						const original = await readWorkspaceFile(oldPath);
+						files.set(filePath, { kind: 'rename', filePath, oldPath, original, content: contentOf(applyPatchHunks(original, patch, filePath, reports)) });
+						break;
+					}
+					case 'modify': {
+						if (patch.hunks.length === 0) { throw new Error("Diff does not contain any valid hunks."); }
+						const base = previous ?? { kind: 'modify' as const, filePath, original: await readWorkspaceFile(filePath), content: '' };
+						const content = contentOf(applyPatchHunks(previous ? previous.content : base.original, patch, filePath, reports));
+						files.set(filePath, { ...base, content });
+						break;
+					}
+				}
+			} catch (e) {
+				const errorMessage = e instanceof Error ? e.message : String(e);
+				errors.push(`${filePath}: ${errorMessage}`);
+			}
+		}
+	}
+
+	const patches = [...files.values()].map(formatFilePatch).filter((patch): patch is string => patch !== undefined);
+	return { patch: patches.length > 0 ? `${patches.join('\n')}\n` : '', fileCount: patches.length, reports, approximateMatches, errors };
+}
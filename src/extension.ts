@@ -1,760 +1,1005 @@
 import * as vscode from 'vscode';
-import { GoogleGenAI } from "@google/genai";
-import * as path from 'path';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { AgentTools, runAgent } from './agent';
+import { applyPatchHunks, ApproximateMatch, ChangesetFile, ChangesetReview, createChangeset, describeApproximateMatch, ProposedDiff } from './changeset';
+import { fitToBudget, formatContextFile, readContextFile, readContextSettings, readWorkspaceContextFiles } from './context';
+import { Conversation } from './conversation';
+import { buildFixDiagnosticsRequest, diagnosticKey, FixDiagnosticsCodeActionProvider, fixableDiagnostics, recheckDiagnostics } from './diagnostics';
+import { formatHunk } from './diff/format';
+import { answersWithDiffs, buildCombinedPatch, sessionToMarkdown } from './export';
+import { parsePatch } from './diff/parse';
+import { ChangeHistory, HistoryNode } from './history';
+import { HunkCodeLensProvider } from './hunkLens';
+import { resolveMentions, suggestMentions } from './mentions';
+import { createProvider, MissingApiKeyError, ModelProvider, readProviderSettings } from './providers';
+import { ApiKeyStore, KeyedProvider } from './providers/apiKey';
+import { findRelatedFiles, isAutoContextEnabled } from './related';
+import { buildRepairRequest, describeFailure, extractDiffBlocks, FailureReport } from './repair';
+import { buildScopedPrompt, describeScope, EditScope, resolveEditScope, toDiffScope } from './scope';
+import { ChatSession, createSession, SessionStore, sessionTitle } from './sessions';
+import { formatSearchResult, WorkspaceIndex } from './search/workspaceIndex';
+import { buildFixPrompt, buildPrompt, loadPromptTemplates, readProjectInstructions, slashCommands } from './prompts';
+import { createMessageHandler, ExtensionMessage, ProtocolError, RequestId } from './protocol';
+import { buildVerificationFixRequest, readVerificationSteps, runVerification, StepResult } from './verify';
+import { defaultWorkspaceFolder, resolveWorkspacePath, toWorkspacePath } from './workspacePaths';
 
 const TAG = 'Gemini Diff Generator';
 
+// How many chunks an @search: mention adds to the context
+const SEARCH_RESULTS = 5;
+const SEARCH_MENTION = /@search:(?:"([^"]+)"|(\S+))/g;
+// How much of a proposed diff the approval dialog shows
+const MAX_APPROVAL_DETAIL = 3000;
+
+/** What editor commands can do with an open chat panel. */
+interface ChatPanel {
+	panel: vscode.WebviewPanel;
+	/** The session the panel shows, which changes when a new chat is started in it. */
+	sessionId(): string;
+	requestScopedEdit(scope: EditScope, instruction: string): Promise<void>;
+	requestDiagnosticsFix(document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]): Promise<void>;
+}
+
 export function activate(context: vscode.ExtensionContext) {
-	// Keep track of the last active editor and if a generation is in progress
+	// Keep track of the last active editor
 	let lastActiveEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
-	let isGenerationCancelled = false;
 
-	let activeDiffUris: { original: vscode.Uri, patched: vscode.Uri } | null = null;
+	const changesetReview = new ChangesetReview();
+	context.subscriptions.push(vscode.window.registerTreeDataProvider('geminiDiffGenerator.changeset', changesetReview));
 
-	// Update the last active editor whenever it changes
+	// Update the last active editor whenever it changes, and whether a review diff is in front
 	context.subscriptions.push(
 		vscode.window.onDidChangeActiveTextEditor(editor => {
 			if (editor) {
 				lastActiveEditor = editor;
 			}
 
-			if (activeDiffUris) {
-				const visibleEditors = vscode.window.visibleTextEditors;
-				const isDiffStillVisible = visibleEditors.some(e => e.document.uri === activeDiffUris?.patched);
-				if (!isDiffStillVisible) {
-					activeDiffUris = null;
-					vscode.commands.executeCommand('setContext', 'geminiDiffGenerator.diffVisible', false);
-				}
-			}
+			const isReviewingDiff = editor !== undefined && changesetReview.findFile(editor.document.uri) !== undefined;
+			vscode.commands.executeCommand('setContext', 'geminiDiffGenerator.diffVisible', isReviewingDiff);
 		})
 	);
 
-	let acceptDiffCommand = vscode.commands.registerCommand('gemini-diff-generator.acceptDiff', async () => {
-		if (!activeDiffUris) {
+	// The editor title actions act on the review diff in front; the view actions pass the file they belong to
+	const resolveReviewFile = (file?: ChangesetFile): ChangesetFile | undefined => {
+		const activeUri = vscode.window.activeTextEditor?.document.uri;
+		const resolved = file ?? (activeUri && changesetReview.findFile(activeUri));
+		if (!resolved) {
 			vscode.window.showErrorMessage("No active Gemini diff to apply.");
-			return;
 		}
+		return resolved;
+	};
 
-		try {
-			// Find the two documents from our stored URIs
-			const originalDoc = await vscode.workspace.openTextDocument(activeDiffUris.original);
-			const patchedDoc = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === activeDiffUris!.patched.toString());
+	context.subscriptions.push(
+		vscode.commands.registerCommand('gemini-diff-generator.acceptDiff', async (file?: ChangesetFile) => {
+			const resolved = resolveReviewFile(file);
+			if (resolved) { await changesetReview.decide(resolved, 'accepted'); }
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.rejectDiff', async (file?: ChangesetFile) => {
+			const resolved = resolveReviewFile(file);
+			if (resolved) { await changesetReview.decide(resolved, 'rejected'); }
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.reviewFile', (file: ChangesetFile) => changesetReview.showFile(file)),
+		vscode.commands.registerCommand('gemini-diff-generator.acceptAll', () => changesetReview.applyAll()),
+		vscode.commands.registerCommand('gemini-diff-generator.discardChangeset', () => changesetReview.discard()),
+	);
 
-			if (!patchedDoc) {
-				throw new Error("Could not find the patched document. It may have been closed.");
+	// The key is read from secret storage in the background; requests wait for it
+	const apiKeys = new ApiKeyStore(context.secrets);
+	context.subscriptions.push(apiKeys);
+	const apiKeysLoaded = apiKeys.load();
+	const needsApiKey = () => readProviderSettings().provider === 'gemini' && !apiKeys.hasKey('gemini');
+
+	// Each provider's key has its own commands. `prompt` describes the key in the input box.
+	const registerApiKeyCommands = (provider: KeyedProvider, setCommand: string, clearCommand: string, title: string, prompt: string) => [
+		vscode.commands.registerCommand(setCommand, async () => {
+			const key = await vscode.window.showInputBox({
+				title,
+				prompt: `${prompt} It is kept in VS Code's secret storage, not in your settings.`,
+				password: true,
+				ignoreFocusOut: true,
+				validateInput: value => value.trim() ? undefined : 'Please enter a key.',
+			});
+			if (!key) { return; }
+			await apiKeys.set(provider, key);
+			vscode.window.showInformationMessage(`The ${title} was saved.`);
+		}),
+		vscode.commands.registerCommand(clearCommand, async () => {
+			await apiKeysLoaded;
+			if (!apiKeys.hasKey(provider)) {
+				vscode.window.showInformationMessage(`No ${title} is stored.`);
+				return;
 			}
+			const selection = await vscode.window.showWarningMessage(`Remove the stored ${title}?`, { modal: true }, 'Clear');
+			if (selection !== 'Clear') { return; }
+			await apiKeys.clear(provider);
+			vscode.window.showInformationMessage(`The ${title} was removed.`);
+		}),
+	];
 
-			const finalContent = patchedDoc.getText();
-			const edit = new vscode.WorkspaceEdit();
-			const fullRange = new vscode.Range(
-				originalDoc.positionAt(0),
-				originalDoc.positionAt(originalDoc.getText().length)
-			);
+	context.subscriptions.push(
+		...registerApiKeyCommands('gemini', 'gemini-diff-generator.setApiKey', 'gemini-diff-generator.clearApiKey',
+			'Gemini API key', 'Your Google AI Studio API key.'),
+		...registerApiKeyCommands('openaiCompatible', 'gemini-diff-generator.setOpenAICompatibleApiKey', 'gemini-diff-generator.clearOpenAICompatibleApiKey',
+			'OpenAI-compatible API key', 'The bearer token your OpenAI-compatible server wants. The Gemini key is never sent to it.'),
+	);
 
-			// Replace original content with the final content from the diff view
-			edit.replace(originalDoc.uri, fullRange, finalContent);
-			await vscode.workspace.applyEdit(edit);
+	// The workspace is indexed for @search: mentions and the agent's searches the first time one is made
+	const workspaceIndex = new WorkspaceIndex(apiKeys);
+	context.subscriptions.push(workspaceIndex);
 
-			// Close the diff editor tab
-			await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	// Every applied changeset is logged so it can be reverted later
+	const history = new ChangeHistory(context.workspaceState);
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider('geminiDiffGenerator.history', history),
+		changesetReview.onDidApply(applied => history.record(applied)),
+		vscode.commands.registerCommand('gemini-diff-generator.revertChange', async (node?: HistoryNode) => {
+			const entry = node?.entry ?? await pickHistoryEntry(history);
+			if (entry) { await history.revert(entry); }
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.showHistoryDiff', (node: HistoryNode) => {
+			if (node.type === 'file') { return history.showDiff(node.file); }
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.clearHistory', async () => {
+			const selection = await vscode.window.showWarningMessage("Clear the log of applied changes?", { modal: true }, 'Clear');
+			if (selection === 'Clear') { await history.clear(); }
+		}),
+	);
 
-			vscode.window.showInformationMessage("Changes applied successfully.");
+	// Hunk actions come from the CodeLenses with a document and hunk key, or from the editor context menu,
+	// in which case they act on the hunk under the cursor
+	context.subscriptions.push(vscode.languages.registerCodeLensProvider({ scheme: 'untitled' }, new HunkCodeLensProvider(changesetReview)));
 
-		} catch (e) {
-			const errorMessage = e instanceof Error ? e.message : String(e);
-			vscode.window.showErrorMessage(`Failed to apply changes: ${errorMessage}`);
-		} finally {
-			// Reset state
-			activeDiffUris = null;
-			vscode.commands.executeCommand('setContext', 'geminiDiffGenerator.diffVisible', false);
+	const resolveReviewHunk = (uri?: vscode.Uri, key?: string): { file: ChangesetFile, key: string } | undefined => {
+		const editor = vscode.window.activeTextEditor;
+		const file = changesetReview.findFile(uri ?? editor?.document.uri ?? vscode.Uri.parse('untitled:'));
+		if (!file) {
+			vscode.window.showErrorMessage("No active Gemini diff to apply.");
+			return undefined;
+		}
+		if (key) { return { file, key }; }
+
+		const line = editor?.selection.active.line ?? 0;
+		const hunk = changesetReview.reviewHunks(file).find(h =>
+			line >= h.change.modifiedStart && line < h.change.modifiedStart + Math.max(h.change.modifiedLength, 1));
+		if (!hunk) {
+			vscode.window.showInformationMessage("There is no proposed change at the cursor.");
+			return undefined;
 		}
-	});
-	context.subscriptions.push(acceptDiffCommand);
+		return { file, key: hunk.key };
+	};
 
-	let disposable = vscode.commands.registerCommand('gemini-diff-generator.start', () => {
-		const panel = vscode.window.createWebviewPanel(
+	context.subscriptions.push(
+		vscode.commands.registerCommand('gemini-diff-generator.acceptHunk', async (uri?: vscode.Uri, key?: string) => {
+			const resolved = resolveReviewHunk(uri, key);
+			if (resolved) { await changesetReview.decideHunk(resolved.file, resolved.key, 'accepted'); }
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.rejectHunk', async (uri?: vscode.Uri, key?: string) => {
+			const resolved = resolveReviewHunk(uri, key);
+			if (resolved) { await changesetReview.decideHunk(resolved.file, resolved.key, 'rejected'); }
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.acceptRemainingHunks', async (uri?: vscode.Uri) => {
+			const file = resolveReviewFile(uri && changesetReview.findFile(uri));
+			if (file) { await changesetReview.decideRemainingHunks(file, 'accepted'); }
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.rejectRemainingHunks', async (uri?: vscode.Uri) => {
+			const file = resolveReviewFile(uri && changesetReview.findFile(uri));
+			if (file) { await changesetReview.decideRemainingHunks(file, 'rejected'); }
+		}),
+	);
+
+	// Writes the diffs as one patch file the user picks, reporting anything that had to be left out
+	const exportPatch = async (diffs: ProposedDiff[], prompt: string) => {
+		const workspaceFolder = defaultWorkspaceFolder();
+		if (!workspaceFolder) {
+			vscode.window.showErrorMessage("Please open a workspace to export a patch.");
+			return;
+		}
+		const combined = await buildCombinedPatch(diffs);
+		if (combined.fileCount === 0) {
+			vscode.window.showErrorMessage(`None of the diffs could be applied to the current files, so there is nothing to export.${combined.errors.length > 0 ? ` ${combined.errors.join('; ')}` : ''}`);
+			return;
+		}
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, `${fileNameFor(prompt, 'gemini-changes')}.patch`),
+			filters: { 'Patch files': ['patch', 'diff'] },
+		});
+		if (!target) { return; }
+		await vscode.workspace.fs.writeFile(target, Buffer.from(combined.patch, 'utf8'));
+
+		const skipped = [
+			...combined.reports.map(report => `${report.failed.length} of ${report.totalHunks} changes to ${report.filePath}`),
+			...combined.errors,
+		];
+		reportApproximateMatches(combined.approximateMatches);
+		if (skipped.length > 0) {
+			vscode.window.showWarningMessage(`Exported changes to ${combined.fileCount} file(s), but left out what didn't apply to the current files: ${skipped.join('; ')}.`);
+		} else {
+			vscode.window.showInformationMessage(`Exported changes to ${combined.fileCount} file(s) to ${vscode.workspace.asRelativePath(target)}.`);
+		}
+	};
+
+	// Chats are saved as they go, so they can be reopened from the "Gemini Chats" view or restored after a reload
+	const sessions = new SessionStore(context.workspaceState, context.storageUri);
+	const snapshotsMoved = sessions.moveSnapshotsToFiles().catch(error => console.error('Failed to move chat snapshots to files', error));
+	context.subscriptions.push(vscode.window.registerTreeDataProvider('geminiDiffGenerator.sessions', sessions));
+
+	// The most recently opened chat panel, which editor commands send their requests to
+	let currentChat: ChatPanel | undefined;
+	const openChats = new Set<ChatPanel>();
+
+	// Opens a chat panel for `initialSession`, or for a new session. `restoredPanel` is a panel VS Code kept
+	// across a reload, which is reused instead of creating one.
+	const openChat = (initialSession?: ChatSession, restoredPanel?: vscode.WebviewPanel): ChatPanel => {
+		const panel = restoredPanel ?? vscode.window.createWebviewPanel(
 			'geminiChat',
 			'Gemini Diff Generator',
 			vscode.ViewColumn.Two,
 			{
 				enableScripts: true,
 				retainContextWhenHidden: true, // Retain context when webview is hidden
+				localResourceRoots: webviewRoots(context.extensionUri),
 			}
 		);
-
-		// Send the initial file context to the webview
-		if (lastActiveEditor) {
-			const relativePath = vscode.workspace.asRelativePath(lastActiveEditor.document.uri);
-			panel.webview.postMessage({ command: 'updateActiveFile', filePath: relativePath });
-		}
+		panel.webview.options = { enableScripts: true, localResourceRoots: webviewRoots(context.extensionUri) };
+
+		// Each panel keeps its own conversation history and tracks its in-flight generation
+		let session = initialSession ?? createSession();
+		const conversation = Conversation.fromState(session.conversation);
+		let generation: AbortController | undefined;
+
+		const post = (message: ExtensionMessage) => panel.webview.postMessage(message);
+
+		// Adds a request the extension makes itself to the panel, and returns the ID its answer streams under
+		const startRequest = (text: string, scope?: EditScope): RequestId => {
+			const requestId = crypto.randomUUID();
+			post({ command: 'startRequest', requestId, text, scope: scope && toDiffScope(scope) });
+			return requestId;
+		};
+
+		// Tells the webview which file is active and, in auto context mode, which files are related to it
+		const showActiveFile = async (document: vscode.TextDocument) => {
+			const relativePath = toWorkspacePath(document.uri);
+			post({ command: 'updateActiveFile', filePath: relativePath });
+			if (!isAutoContextEnabled()) { return; }
+			try {
+				const files = await findRelatedFiles(document);
+				post({ command: 'relatedFiles', activeFile: relativePath, files });
+			} catch (e) {
+				console.error(`Could not find files related to ${relativePath}`, e);
+			}
+		};
 
 		// Update context in the webview if the editor changes while the panel is visible
 		const editorChangeSubscription = vscode.window.onDidChangeActiveTextEditor(editor => {
 			if (editor && panel.visible) {
 				lastActiveEditor = editor;
-				const relativePath = vscode.workspace.asRelativePath(editor.document.uri);
-				panel.webview.postMessage({ command: 'updateActiveFile', filePath: relativePath });
+				showActiveFile(editor.document);
 			}
 		});
 
+		// The panel asks for a missing key in place, and drops the prompt once one is set
+		const showApiKeyStatus = () => post({ command: 'apiKeyStatus', configured: !needsApiKey() });
+		const apiKeySubscription = vscode.Disposable.from(
+			apiKeys.onDidChange(showApiKeyStatus),
+			vscode.workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration('gemini-diff-generator.provider')) { showApiKeyStatus(); }
+			}),
+		);
+
 		panel.onDidDispose(() => {
+			generation?.abort();
 			editorChangeSubscription.dispose();
+			apiKeySubscription.dispose();
+			fixCheckSubscription.dispose();
+			verifySubscription.dispose();
+			openChats.delete(chat);
+			if (currentChat === chat) { currentChat = undefined; }
 		});
 
-		panel.webview.html = getWebviewContent();
+		panel.webview.html = getWebviewContent(panel.webview, context.extensionUri);
+
+		// Creates the provider for a request. A missing API key is asked for in the panel rather than in a notification.
+		const startProvider = async (requestId: RequestId): Promise<ModelProvider | undefined> => {
+			await apiKeysLoaded;
+			try {
+				return createProvider(apiKeys.keys);
+			} catch (e) {
+				if (e instanceof MissingApiKeyError) {
+					showApiKeyStatus();
+				} else {
+					const errorMessage = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(errorMessage);
+				}
+				post({ command: 'generationComplete', requestId });
+				return undefined;
+			}
+		};
+
+		// Streams the model's answer to `prompt` into the request's bubble and records the exchange.
+		// Resolves to the answer, or undefined if it failed or was stopped.
+		const generate = async (requestId: RequestId, userText: string, prompt: string): Promise<string | undefined> => {
+			const provider = await startProvider(requestId);
+			if (!provider) { return undefined; }
+
+			const historyTokenBudget = vscode.workspace.getConfiguration('gemini-diff-generator').get<number>('historyTokenBudget', 32000);
+			const turns = conversation.toTurns(prompt, historyTokenBudget);
+
+			const currentGeneration = new AbortController();
+			generation = currentGeneration;
+			let answer = '';
+			let failed = false;
+			try {
+				for await (const chunk of provider.generateStream({ turns, signal: currentGeneration.signal })) {
+					if (chunk.type === 'thought') {
+						post({ command: 'streamThought', requestId, text: chunk.text });
+					} else if (chunk.type === 'text') {
+						answer += chunk.text;
+						post({ command: 'streamResponse', requestId, text: chunk.text });
+					}
+				}
+			} catch (error) {
+				failed = true;
+				const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+				vscode.window.showErrorMessage(errorMessage);
+				console.error(error);
+			} finally {
+				if (answer) {
+					conversation.addExchange(userText, currentGeneration.signal.aborted ? `${answer}\n\n[Response stopped by the user]` : answer);
+				}
+				generation = undefined;
+				post({ command: 'generationComplete', requestId, cancelled: currentGeneration.signal.aborted });
+			}
+			return failed || currentGeneration.signal.aborted ? undefined : answer;
+		};
+
+		// Lets the model call tools for up to `agentMaxSteps` rounds, showing each call in the panel. Diffs it proposes
+		// and the user approves are opened for review together once it finishes.
+		const runAgentRequest = async (requestId: RequestId, userText: string, prompt: string) => {
+			const provider = await startProvider(requestId);
+			if (!provider) { return; }
+
+			const config = vscode.workspace.getConfiguration('gemini-diff-generator');
+			const turns = conversation.toTurns(prompt, config.get<number>('historyTokenBudget', 32000));
+			const maxSteps = config.get<number>('agentMaxSteps', 15);
+			const tools = new AgentTools(workspaceIndex, contextSnapshots, async proposal => {
+				const selection = await vscode.window.showInformationMessage(
+					`Gemini wants to change ${proposal.filePath}. Approve the diff for review?`,
+					{ modal: true, detail: proposal.diff.length > MAX_APPROVAL_DETAIL ? `${proposal.diff.substring(0, MAX_APPROVAL_DETAIL)}\n…` : proposal.diff },
+					'Approve', 'Decline'
+				);
+				return selection === 'Approve';
+			});
+
+			const currentGeneration = new AbortController();
+			generation = currentGeneration;
+			let answer = '';
+			try {
+				const result = await runAgent({
+					provider,
+					turns,
+					maxSteps,
+					signal: currentGeneration.signal,
+					tools,
+					onChunk: (type, text) => {
+						if (type === 'text') { answer += text; }
+						post({ command: type === 'thought' ? 'streamThought' : 'streamResponse', requestId, text });
+					},
+					onToolCall: call => post({ command: 'toolCall', requestId, call }),
+					onToolResult: (call, result) => post({ command: 'toolResult', requestId, id: call.id, result }),
+				});
+				if (result.stepsExhausted) {
+					vscode.window.showWarningMessage(`Gemini stopped after ${maxSteps} steps without finishing. Raise "agentMaxSteps" to let it take more.`);
+				}
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+				vscode.window.showErrorMessage(errorMessage);
+				console.error(error);
+			} finally {
+				const proposed = tools.proposals.map(proposal => `Proposed a diff for ${proposal.filePath}.`);
+				const summary = [answer, ...proposed].filter(Boolean).join('\n\n');
+				if (summary) {
+					conversation.addExchange(userText, currentGeneration.signal.aborted ? `${summary}\n\n[Response stopped by the user]` : summary);
+				}
+				generation = undefined;
+				post({ command: 'generationComplete', requestId, cancelled: currentGeneration.signal.aborted });
+			}
 
-		panel.webview.onDidReceiveMessage(
-			async message => {
-				switch (message.command) {
-					case 'getWorkspaceFiles': {
-						const query = message.query;
-						if (!query) { return; }
+			if (tools.proposals.length > 0) {
+				await reviewDiffs(tools.proposals, userText);
+			}
+		};
+
+		// Hunks that failed to apply, by file, kept until the model is asked to fix them
+		const failureReports = new Map<string, FailureReport>(session.failureReports.map(report => [report.filePath, report]));
+		// The content of each context file as it was last sent, so later edits can be merged with the model's diffs
+		const contextSnapshots = new Map<string, string>();
+		// Snapshots are stored apart from the session; anything sent since the panel opened is newer and wins
+		const restoredSessionId = session.id;
+		snapshotsMoved.then(() => sessions.loadSnapshots(restoredSessionId)).then(snapshots => {
+			if (session.id !== restoredSessionId) { return; }
+			for (const [filePath, content] of Object.entries(snapshots)) {
+				if (!contextSnapshots.has(filePath)) { contextSnapshots.set(filePath, content); }
+			}
+		});
+
+		const reportFailures = (reports: FailureReport[]) => {
+			for (const report of reports) {
+				failureReports.set(report.filePath, report);
+				post({
+					command: 'applyReport',
+					filePath: report.filePath,
+					totalHunks: report.totalHunks,
+					failures: report.failed.map(failure => ({
+						number: failure.number,
+						reason: describeFailure(failure.reason),
+						hunk: formatHunk(failure.hunk),
+					})),
+				});
+
+				const applied = report.totalHunks - report.failed.length;
+				vscode.window.showWarningMessage(
+					`Could only apply ${applied} of ${report.totalHunks} changes for ${report.filePath}. Please review carefully.`,
+					'Ask Gemini to Fix'
+				).then(selection => {
+					if (selection) { repairFile(report.filePath); }
+				});
+			}
+		};
 
-						// Find files, excluding node_modules and .git
-						const files = await vscode.workspace.findFiles(`**/*${query}*`, '**/{node_modules,.git}/**');
+		const reviewDiffs = async (diffs: ProposedDiff[], prompt: string) => {
+			if (!vscode.workspace.workspaceFolders?.length) {
+				vscode.window.showErrorMessage("No active workspace folder found to apply diff to.");
+				return;
+			}
 
-						const relativePaths = files.map(file =>
-							vscode.workspace.asRelativePath(file)
-						).slice(0, 10); // Limit to 10 suggestions for performance
+			const changeset = await createChangeset(diffs, conversation, prompt, contextSnapshots);
+			reportFailures(changeset.reports);
+			reportApproximateMatches(changeset.approximateMatches);
+			if (changeset.files.length > 0) {
+				await changesetReview.open(changeset);
+			}
+		};
+
+		// Sends the failed hunks of a file back to the model along with the file's current content,
+		// then applies the corrected diff it returns
+		const repairFile = async (filePath: string) => {
+			const report = failureReports.get(filePath);
+			if (!report) { return; }
+			if (generation) {
+				vscode.window.showInformationMessage("Please wait for the current response to finish.");
+				return;
+			}
 
-						panel.webview.postMessage({ command: 'fileSuggestions', suggestions: relativePaths });
-						return;
-					}
-					case 'sendMessage': {
-						isGenerationCancelled = false;
-
-						const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-						if (!workspaceFolder) {
-							vscode.window.showErrorMessage("Please open a workspace to use this feature.");
-							return;
-						}
-
-						const userQuery = message.text;
-						const contextFiles = message.contextFiles as string[]; // Added files via @
-						const activeFile = message.activeFile as string; // The currently viewed file
-
-						const apiKey = vscode.workspace.getConfiguration('gemini-diff-generator').get('apiKey');
-						if (!apiKey || typeof apiKey !== 'string' || apiKey === '') {
-							vscode.window.showErrorMessage('Gemini API key not configured. Please set it in the settings.');
-							panel.webview.postMessage({ command: 'generationComplete' });
-							return;
-						}
-
-						let promptContext = '';
-						const allContextFiles = Array.from(new Set([activeFile, ...contextFiles]));
-
-						for (const relativePath of allContextFiles) {
-							try {
-								const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, relativePath);
-								const fileContentBytes = await vscode.workspace.fs.readFile(fileUri);
-								const fileContent = Buffer.from(fileContentBytes).toString('utf8');
-								promptContext += `--- File: ${relativePath} ---\n${fileContent}\n--- End File: ${relativePath} ---\n\n`;
-							} catch (e) {
-								console.error(`Could not read file for context: ${relativePath}`, e);
-								promptContext += `--- File: ${relativePath} ---\n[Could not read file content]\n--- End File: ${relativePath} ---\n\n`;
-							}
-						}
-
-						const genAI = new GoogleGenAI({ apiKey });
-						const prompt = `
-                            You are an expert programmer. Your task is to respond to the user's request based on the provided file contexts.
-                            
-                            ${promptContext}
-                            The user's request is: "${userQuery}"
-
-                            If your response involves making changes to any of the provided files, you MUST generate a SEPARATE diff for EACH file you modify.
-                            Each diff must be in its own Markdown code block with the language identifier 'diff'.
-                            The diff header MUST include the full relative file path using the format '--- a/path/to/file.ext' and '+++ b/path/to/file.ext'.
-                            Pay meticulous attention to preserving the original file's indentation and whitespace for all context lines. Each line in a hunk must start with '+', '-', or a space.
-                            
-                            For example:
-                            \`\`\`diff
-                            --- a/src/component.js
-                            +++ b/src/component.js
-                            @@ -1,3 +1,4 @@
-                             import React from 'react';
-                             
-                            +console.log('hello');
-                             function MyComponent() {
-                            \`\`\`
-                            If you are not suggesting changes to any files, do not generate a diff.
-                        `;
-
-						try {
-							const request = {
-								model: "gemini-2.5-pro",
-								contents: prompt,
-								config: { thinkingConfig: { includeThoughts: true, thinkingBudget: 8192 } },
-							};
-
-							const result = await genAI.models.generateContentStream(request);
-
-							for await (const chunk of result) {
-								if (isGenerationCancelled) { break; }
-								if (chunk.candidates && chunk.candidates[0]?.content?.parts) {
-									for (const part of chunk.candidates[0].content.parts) {
-										if (!part.text) { continue; }
-										if (part.thought) {
-											panel.webview.postMessage({ command: 'streamThought', text: part.text });
-										} else {
-											panel.webview.postMessage({ command: 'streamResponse', text: part.text });
-										}
-									}
-								}
-							}
-						} catch (error) {
-							const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-							vscode.window.showErrorMessage(`Error communicating with Gemini API: ${errorMessage}`);
-							console.error(error);
-						} finally {
-							panel.webview.postMessage({ command: 'generationComplete', cancelled: isGenerationCancelled });
-						}
-						return;
-					}
-					case 'stopGeneration': {
-						isGenerationCancelled = true;
-						return;
+			// While the file is still under review, the fix builds on the hunks that did apply
+			const reviewFile = changesetReview.current?.conversation === conversation ? changesetReview.findFileByPath(filePath) : undefined;
+			const pendingFile = reviewFile?.decision === 'pending' ? reviewFile : undefined;
+			let currentContent: string;
+			if (pendingFile) {
+				currentContent = changesetReview.patchedContent(pendingFile);
+			} else {
+				try {
+					const fileContentBytes = await vscode.workspace.fs.readFile((await resolveWorkspacePath(filePath)).uri);
+					currentContent = Buffer.from(fileContentBytes).toString('utf8');
+				} catch (e) {
+					const errorMessage = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(`Could not read ${filePath}: ${errorMessage}`);
+					return;
+				}
+			}
+
+			const userText = `Fix the ${report.failed.length} change(s) that could not be applied to ${filePath}.`;
+			const answer = await generate(startRequest(userText), userText, await buildFixPrompt('repair', buildRepairRequest(report, currentContent)));
+			if (answer === undefined) { return; }
+
+			const diffs = extractDiffBlocks(answer);
+			if (diffs.length === 0) {
+				vscode.window.showWarningMessage(`Gemini did not return a corrected diff for ${filePath}.`);
+				return;
+			}
+			failureReports.delete(filePath);
+
+			if (pendingFile && pendingFile.decision === 'pending' && changesetReview.findFileByPath(filePath) === pendingFile) {
+				const reports: FailureReport[] = [];
+				const approximateMatches: ApproximateMatch[] = [];
+				let content = currentContent;
+				for (const diff of diffs) {
+					for (const patch of parsePatch(diff)) {
+						const patched = applyPatchHunks(content, patch, filePath, reports);
+						if (patched.approximate) { approximateMatches.push(patched.approximate); }
+						content = patched.content;
 					}
-					case 'applyDiff': {
-						const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-						if (!workspaceFolder) {
-							vscode.window.showErrorMessage("No active workspace folder found to apply diff to.");
-							return;
-						}
-
-						try {
-							const targetPath = message.filePath;
-							const diffContent = message.diff;
-							const targetUri = vscode.Uri.joinPath(workspaceFolder.uri, targetPath);
-
-							let document;
-							try {
-								document = await vscode.workspace.openTextDocument(targetUri);
-							} catch (e) {
-								throw new Error(`File not found in workspace: ${targetPath}`);
-							}
-
-							const originalContent = document.getText();
-
-							interface HunkLine { type: 'add' | 'remove' | 'context'; content: string; }
-							interface Hunk { lines: HunkLine[]; }
-
-							const parseDiffToHunks = (diff: string): Hunk[] => {
-								const hunks: Hunk[] = [];
-								let currentHunk: Hunk | null = null;
-								for (const line of diff.split('\n')) {
-									if (line.startsWith('@@')) {
-										if (currentHunk) { hunks.push(currentHunk); }
-										currentHunk = { lines: [] };
-									} else if (currentHunk && (line.startsWith('+') || line.startsWith('-') || line.startsWith(' '))) {
-										const type = line.startsWith('+') ? 'add' : line.startsWith('-') ? 'remove' : 'context';
-										currentHunk.lines.push({ type, content: line.substring(1) });
-									}
-								}
-								if (currentHunk) { hunks.push(currentHunk); }
-								return hunks;
-							};
-
-							const findHunkIndex = (sourceLines: string[], hunk: Hunk): number => {
-								const contextLines = hunk.lines.filter(l => l.type === 'context');
-								if (contextLines.length === 0 && hunk.lines.filter(l => l.type === 'remove').length > 0) {
-									const removeLines = hunk.lines.filter(l => l.type === 'remove').map(l => l.content);
-									for (let i = 0; i <= sourceLines.length - removeLines.length; i++) {
-										const window = sourceLines.slice(i, i + removeLines.length);
-										if (window.every((line, index) => line === removeLines[index])) { return i; }
-									}
-								}
-								if (contextLines.length === 0) { return -1; }
-								const searchSignature = contextLines.map(l => l.content);
-								for (let i = 0; i < sourceLines.length; i++) {
-									if (sourceLines[i] === searchSignature[0]) {
-										let tempSourceIndex = i + 1;
-										let tempContextIndex = 1;
-										while (tempContextIndex < searchSignature.length && tempSourceIndex < sourceLines.length) {
-											if (sourceLines[tempSourceIndex] === searchSignature[tempContextIndex]) {
-												tempContextIndex++;
-											}
-											tempSourceIndex++;
-										}
-										if (tempContextIndex === searchSignature.length) { return i; }
-									}
-								}
-								return -1;
-							};
-
-							const firstHunkIndex = diffContent.indexOf('@@');
-							if (firstHunkIndex === -1) { throw new Error("Diff does not contain any valid hunks."); }
-							const cleanDiff = diffContent.substring(firstHunkIndex);
-
-							const hunks = parseDiffToHunks(cleanDiff);
-							const originalLines = originalContent.split('\n');
-							const hunkStartLocations = new Map<number, Hunk>();
-							let successfulHunks = 0;
-
-							for (const hunk of hunks) {
-								const index = findHunkIndex(originalLines, hunk);
-								if (index !== -1) {
-									hunkStartLocations.set(index, hunk);
-									successfulHunks++;
-								}
-							}
-
-							const patchedLines: string[] = [];
-							for (let i = 0; i < originalLines.length;) {
-								if (hunkStartLocations.has(i)) {
-									const hunk = hunkStartLocations.get(i)!;
-									hunk.lines.forEach(line => {
-										if (line.type !== 'remove') { patchedLines.push(line.content); }
-									});
-									i += hunk.lines.filter(l => l.type !== 'add').length;
-								} else {
-									patchedLines.push(originalLines[i]);
-									i++;
-								}
-							}
-
-							if (successfulHunks < hunks.length) {
-								vscode.window.showWarningMessage(`Could only apply ${successfulHunks} of ${hunks.length} changes for ${targetPath}. Please review carefully.`);
-							}
-
-							const patchedContent = patchedLines.join('\n');
-							const patchedDoc = await vscode.workspace.openTextDocument({ content: patchedContent, language: document.languageId });
-
-							activeDiffUris = { original: document.uri, patched: patchedDoc.uri };
-							vscode.commands.executeCommand('setContext', 'geminiDiffGenerator.diffVisible', true);
-
-							const diffTitle = `Review Changes for ${path.basename(targetPath)}`;
-							await vscode.commands.executeCommand('vscode.diff', document.uri, patchedDoc.uri, diffTitle);
-
-							// const selection = await vscode.window.showInformationMessage(
-							// 	`Review changes for ${targetPath}. You can edit the right side before accepting.`,
-							// 	{ modal: true }, '✅ Accept & Apply'
-							// );
-
-							// if (selection === '✅ Accept & Apply') {
-							// 	const finalContent = patchedDoc.getText();
-							// 	const edit = new vscode.WorkspaceEdit();
-							// 	const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(originalContent.length));
-							// 	edit.replace(document.uri, fullRange, finalContent);
-							// 	await vscode.workspace.applyEdit(edit);
-							// 	await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
-							// }
-						}
-						catch (e) {
-							const errorMessage = e instanceof Error ? e.message : String(e);
-							console.error("Failed to apply patch:", errorMessage);
-							vscode.window.showErrorMessage(`Failed to apply the patch: ${errorMessage}`);
-                            activeDiffUris = null;
-                            vscode.commands.executeCommand('setContext', 'geminiDiffGenerator.diffVisible', false);							
-						}
-						return;
+				}
+				reportFailures(reports);
+				reportApproximateMatches(approximateMatches);
+				await changesetReview.updatePatchedContent(pendingFile, content);
+			} else {
+				await reviewDiffs(diffs.map(diff => ({ filePath, diff })), userText);
+			}
+		};
+
+		// Sends only the scoped lines and the few around them; the diffs that come back are limited to those lines
+		const requestScopedEdit = async (scope: EditScope, instruction: string) => {
+			if (generation) {
+				vscode.window.showInformationMessage("Please wait for the current response to finish.");
+				return;
+			}
+			const document = vscode.workspace.textDocuments.find(d => toWorkspacePath(d.uri) === scope.filePath);
+			if (document) { contextSnapshots.set(scope.filePath, document.getText()); }
+
+			const userText = `Edit ${describeScope(scope)}: ${instruction}`;
+			await generate(startRequest(userText, scope), userText, buildScopedPrompt(scope, instruction, await readProjectInstructions()));
+		};
+
+		// The problems each fix was meant to resolve, by file, so they can be checked again once it is applied
+		const pendingFixes = new Map<string, { uri: vscode.Uri, keys: Set<string> }>();
+
+		const requestDiagnosticsFix = async (document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) => {
+			if (generation) {
+				vscode.window.showInformationMessage("Please wait for the current response to finish.");
+				return;
+			}
+			const filePath = toWorkspacePath(document.uri);
+			const content = document.getText();
+			contextSnapshots.set(filePath, content);
+
+			const userText = `Fix ${diagnostics.length} problem(s) in ${filePath}.`;
+			const answer = await generate(startRequest(userText), userText, await buildFixPrompt('fixDiagnostics', buildFixDiagnosticsRequest(filePath, content, diagnostics)));
+			if (answer === undefined) { return; }
+
+			const diffs = extractDiffBlocks(answer);
+			if (diffs.length === 0) {
+				vscode.window.showWarningMessage(`Gemini did not return a fix for ${filePath}.`);
+				return;
+			}
+			pendingFixes.set(filePath, { uri: document.uri, keys: new Set(diagnostics.map(diagnosticKey)) });
+			await reviewDiffs(diffs.map(diff => ({ filePath, diff })), userText);
+		};
+
+		const fixCheckSubscription = changesetReview.onDidApply(async ({ changeset, applied }) => {
+			if (changeset.conversation !== conversation) { return; }
+			for (const { file } of applied) {
+				const fix = pendingFixes.get(file.filePath);
+				if (!fix) { continue; }
+				pendingFixes.delete(file.filePath);
+
+				const remaining = (await recheckDiagnostics(fix.uri)).filter(diagnostic => fix.keys.has(diagnosticKey(diagnostic)));
+				if (remaining.length === 0) {
+					vscode.window.showInformationMessage(`The problems in ${file.filePath} are fixed.`);
+					continue;
+				}
+				const selection = await vscode.window.showWarningMessage(
+					`${remaining.length} of ${fix.keys.size} problem(s) in ${file.filePath} remain, such as: ${remaining[0].message}`,
+					'Fix Again'
+				);
+				if (selection) {
+					await requestDiagnosticsFix(await vscode.workspace.openTextDocument(fix.uri), remaining);
+				}
+			}
+		});
+
+		// The last verification that failed, kept until the model is asked to fix it
+		let failedVerification: { results: StepResult[], uris: vscode.Uri[] } | undefined;
+
+		const verifySubscription = changesetReview.onDidApply(async ({ changeset, applied }) => {
+			if (changeset.conversation !== conversation) { return; }
+			const steps = readVerificationSteps();
+			const uris = applied.filter(({ file }) => file.kind !== 'delete').map(({ file }) => file.targetUri);
+			if (steps.length === 0 || uris.length === 0) { return; }
+
+			const results = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: 'Verifying the applied changes…' },
+				() => runVerification(uris, steps)
+			);
+			failedVerification = results.some(result => !result.ok) ? { results, uris } : undefined;
+			post({ command: 'verificationReport', results });
+		});
+
+		// Sends the failed steps' output back to the model along with the files' current content
+		const fixVerification = async () => {
+			if (!failedVerification) { return; }
+			if (generation) {
+				vscode.window.showInformationMessage("Please wait for the current response to finish.");
+				return;
+			}
+			const { results, uris } = failedVerification;
+			const files = await Promise.all(uris.map(uri => readContextFile(uri, toWorkspacePath(uri))));
+			for (const file of files) {
+				if (file.content !== undefined) { contextSnapshots.set(file.filePath, file.content); }
+			}
+
+			const userText = `Fix the ${results.filter(result => !result.ok).length} failed verification step(s).`;
+			const answer = await generate(startRequest(userText), userText, await buildFixPrompt('fixVerification', buildVerificationFixRequest(results, files.map(formatContextFile).join(''))));
+			if (answer === undefined) { return; }
+			failedVerification = undefined;
+
+			const diffs = extractDiffBlocks(answer);
+			if (diffs.length === 0) {
+				vscode.window.showWarningMessage("Gemini did not return a fix for the failed verification.");
+				return;
+			}
+			// A diff without headers can only be placed when a single file was changed
+			const proposed: ProposedDiff[] = [];
+			for (const diff of diffs) {
+				const patch = parsePatch(diff).find(p => p.newPath ?? p.oldPath);
+				const filePath = patch?.newPath ?? patch?.oldPath ?? (files.length === 1 ? files[0].filePath : undefined);
+				if (filePath) {
+					proposed.push({ filePath, diff });
+				} else {
+					vscode.window.showWarningMessage("Left out a fix without '---'/'+++' headers, since it doesn't say which of the changed files it is for.");
+				}
+			}
+			if (proposed.length > 0) { await reviewDiffs(proposed, userText); }
+		};
+
+		// Each message from the webview is checked against the protocol before its handler runs
+		const handleMessage = createMessageHandler({
+			ready: async () => {
+				// The webview replays the transcript, and the active file is sent once it can be shown
+				post({
+					command: 'loadSession',
+					sessionId: session.id,
+					transcript: session.transcript,
+					contextFiles: session.contextFiles,
+					mentions: session.mentions,
+				});
+				if (lastActiveEditor) { showActiveFile(lastActiveEditor.document); }
+				await apiKeysLoaded;
+				showApiKeyStatus();
+			},
+			saveSession: async message => {
+				session = {
+					...session,
+					title: sessionTitle(message.transcript),
+					updatedAt: Date.now(),
+					conversation: conversation.toState(),
+					transcript: message.transcript,
+					contextFiles: message.contextFiles,
+					mentions: message.mentions,
+					failureReports: [...failureReports.values()],
+				};
+				panel.title = `Gemini: ${session.title}`;
+				await sessions.save(session, Object.fromEntries(contextSnapshots));
+			},
+			getSlashCommands: async message => {
+				post({ command: 'slashCommands', query: message.query, commands: slashCommands(await loadPromptTemplates()) });
+			},
+			getMentionSuggestions: async message => {
+				const suggestions = await suggestMentions(message.query);
+				post({ command: 'mentionSuggestions', query: message.query, suggestions });
+			},
+			estimateContext: async message => {
+				if (!vscode.workspace.workspaceFolders?.length) { return; }
+				const paths = Array.from(new Set([message.activeFile, ...message.contextFiles])).filter(Boolean);
+				const { files } = await readWorkspaceContextFiles(paths);
+				const { tokenBudget, strategy } = readContextSettings();
+				post({
+					command: 'contextEstimate',
+					budget: tokenBudget,
+					strategy,
+					files: files.map(file => ({ filePath: file.filePath, tokens: file.tokens })),
+				});
+			},
+			newChat: () => {
+				conversation.reset();
+				failureReports.clear();
+				contextSnapshots.clear();
+				// The previous chat stays saved; this panel moves on to a new session
+				session = createSession();
+				panel.title = 'Gemini Diff Generator';
+				post({ command: 'sessionStarted', sessionId: session.id });
+			},
+			sendMessage: async message => {
+				const { requestId, text: userQuery, activeFile, contextFiles, mentions } = message;
+				if (!vscode.workspace.workspaceFolders?.length) {
+					vscode.window.showErrorMessage("Please open a workspace to use this feature.");
+					post({ command: 'generationComplete', requestId });
+					return;
+				}
+
+				// Folder mentions add files of their own, which are read and budgeted with the rest
+				const resolvedMentions = await resolveMentions(mentions, [activeFile, ...contextFiles].filter(Boolean), lastActiveEditor);
+				const allContextFiles = Array.from(new Set([activeFile, ...contextFiles, ...resolvedMentions.files])).filter(Boolean);
+				const { files, errors } = await readWorkspaceContextFiles(allContextFiles);
+				if (errors.length > 0) {
+					vscode.window.showErrorMessage(`Some files were left out of the context: ${errors.join(' ')}`);
+				}
+				for (const file of files) {
+					if (file.content !== undefined) { contextSnapshots.set(file.filePath, file.content); }
+				}
+
+				// Files that don't fit the budget are shortened, and the model is told how to read the gaps
+				const fitted = await fitToBudget(files, userQuery);
+				let promptContext = fitted.map(formatContextFile).join('') + resolvedMentions.text;
+				const shortened = fitted.filter(file => file.truncation);
+				if (shortened.length > 0) {
+					vscode.window.showInformationMessage(`Shortened ${shortened.map(file => file.filePath).join(', ')} to fit the context token budget.`);
+					promptContext += `Some files were shortened to fit the context budget. Lines marked '[... lines N-M omitted ...]' were left out. Only use lines that are shown as context in your diffs, and ask for the omitted lines if you need to change them.\n\n`;
+				}
+
+				// Each @search: mention adds the best matching chunks from the workspace index
+				for (const match of userQuery.matchAll(SEARCH_MENTION)) {
+					const query = match[1] ?? match[2];
+					const results = await workspaceIndex.search(query, SEARCH_RESULTS);
+					if (results.length === 0) {
+						vscode.window.showInformationMessage(`No code in the workspace matched @search:${query}.`);
 					}
+					promptContext += results.map(result => formatSearchResult(query, result)).join('');
+				}
+
+				let prompt: string;
+				try {
+					prompt = await buildPrompt(userQuery, promptContext, message.agent ? 'agent' : 'chat');
+				} catch (e) {
+					const errorMessage = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(errorMessage);
+					post({ command: 'generationComplete', requestId });
+					return;
+				}
+				if (message.agent) {
+					await runAgentRequest(requestId, userQuery, prompt);
+					return;
+				}
+				await generate(requestId, userQuery, prompt);
+			},
+			stopGeneration: () => {
+				generation?.abort();
+			},
+			applyDiff: async message => {
+				await reviewDiffs([{ filePath: message.filePath, diff: message.diff, scope: message.scope }], message.prompt ?? '');
+			},
+			applyAllDiffs: async message => {
+				const diffs = message.diffs.map(diff => ({ ...diff, scope: message.scope }));
+				await reviewDiffs(diffs, message.prompt ?? '');
+			},
+			setApiKey: async () => {
+				await vscode.commands.executeCommand('gemini-diff-generator.setApiKey');
+			},
+			exportPatch: async message => {
+				await exportPatch(message.diffs, message.prompt ?? '');
+			},
+			repairDiff: async message => {
+				await repairFile(message.filePath);
+			},
+			fixVerification: async () => {
+				await fixVerification();
+			},
+		}, (e, message) => {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			vscode.window.showErrorMessage(errorMessage);
+			// The request's answer bubble would otherwise wait for the rest of the answer forever
+			if (message.command === 'sendMessage') { post({ command: 'generationComplete', requestId: message.requestId }); }
+		});
+
+		panel.webview.onDidReceiveMessage(
+			async value => {
+				try {
+					await handleMessage(value);
+				} catch (e) {
+					// A message the panel shouldn't have sent is a bug in the webview, not something the user can act on
+					if (!(e instanceof ProtocolError)) { throw e; }
+					console.error(e.message, value);
 				}
 			},
 			undefined,
 			context.subscriptions
 		);
-	});
 
-	context.subscriptions.push(disposable);
+		if (session.transcript.length > 0) { panel.title = `Gemini: ${session.title}`; }
+		const chat: ChatPanel = { panel, sessionId: () => session.id, requestScopedEdit, requestDiagnosticsFix };
+		openChats.add(chat);
+		currentChat = chat;
+		return chat;
+	};
+
+	const findOpenChat = (sessionId: string) => [...openChats].find(chat => chat.sessionId() === sessionId);
+
+	context.subscriptions.push(
+		vscode.window.registerWebviewPanelSerializer('geminiChat', {
+			async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: { sessionId?: string } | undefined) {
+				const session = state?.sessionId ? sessions.get(state.sessionId) : undefined;
+				openChat(session, panel);
+			},
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.openSession', async (session?: ChatSession) => {
+			const selected = session ?? await pickSession(sessions);
+			if (!selected) { return; }
+			const open = findOpenChat(selected.id);
+			if (open) {
+				open.panel.reveal();
+				return;
+			}
+			// The stored copy is newer than the one the tree item was created with, if the chat has been used since
+			openChat(sessions.get(selected.id) ?? selected);
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.exportChat', async () => {
+			const session = (currentChat && sessions.get(currentChat.sessionId())) ?? await pickSession(sessions);
+			if (!session) { return; }
+			const format = await vscode.window.showQuickPick([
+				{ label: 'Markdown', id: 'markdown' },
+				{ label: 'Markdown with thoughts and tool calls', id: 'markdownWithThoughts' },
+				{ label: 'Patch file', description: 'The diffs of one answer, for git apply', id: 'patch' },
+			], { placeHolder: `Export "${session.title}" as` });
+			if (!format) { return; }
+
+			if (format.id === 'patch') {
+				const answers = answersWithDiffs(session);
+				if (answers.length === 0) {
+					vscode.window.showInformationMessage("No answer in this chat contains diffs.");
+					return;
+				}
+				const answer = answers.length === 1 ? answers[0] : (await vscode.window.showQuickPick(answers.map(a => ({
+					label: a.prompt.trim().split('\n')[0] || 'Answer',
+					description: `${a.diffs.length} diff(s)`,
+					answer: a,
+				})), { placeHolder: 'Select the answer whose diffs to export' }))?.answer;
+				if (answer) { await exportPatch(answer.diffs, answer.prompt); }
+				return;
+			}
+
+			const workspaceFolder = defaultWorkspaceFolder();
+			const target = await vscode.window.showSaveDialog({
+				defaultUri: workspaceFolder && vscode.Uri.joinPath(workspaceFolder.uri, `${fileNameFor(session.title, 'gemini-chat')}.md`),
+				filters: { 'Markdown': ['md'] },
+			});
+			if (!target) { return; }
+			await vscode.workspace.fs.writeFile(target, Buffer.from(sessionToMarkdown(session, format.id === 'markdownWithThoughts'), 'utf8'));
+			vscode.window.showInformationMessage(`Exported the chat to ${vscode.workspace.asRelativePath(target)}.`);
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.importPatch', async () => {
+			const workspaceFolder = defaultWorkspaceFolder();
+			if (!workspaceFolder) {
+				vscode.window.showErrorMessage("Please open a workspace to import a patch into.");
+				return;
+			}
+			const [source] = await vscode.window.showOpenDialog({
+				defaultUri: workspaceFolder.uri,
+				canSelectMany: false,
+				filters: { 'Patch files': ['patch', 'diff'] },
+				openLabel: 'Import',
+			}) ?? [];
+			if (!source) { return; }
+
+			const diff = Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf8');
+			if (parsePatch(diff).length === 0) {
+				vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(source)} does not contain a unified diff.`);
+				return;
+			}
+			// An imported patch has no chat behind it, so its outcome is recorded in a conversation of its own
+			const changeset = await createChangeset([{ filePath: '', diff }], new Conversation(), `Imported ${vscode.workspace.asRelativePath(source)}`);
+			for (const report of changeset.reports) {
+				vscode.window.showWarningMessage(`Could only apply ${report.totalHunks - report.failed.length} of ${report.totalHunks} changes for ${report.filePath}. Please review carefully.`);
+			}
+			if (changeset.files.length > 0) {
+				await changesetReview.open(changeset);
+			}
+		}),
+		vscode.commands.registerCommand('gemini-diff-generator.deleteSession', async (session?: ChatSession) => {
+			const selected = session ?? await pickSession(sessions);
+			if (!selected) { return; }
+			const confirmation = await vscode.window.showWarningMessage(`Delete the chat "${selected.title}"?`, { modal: true }, 'Delete');
+			if (confirmation !== 'Delete') { return; }
+			findOpenChat(selected.id)?.panel.dispose();
+			await sessions.delete(selected.id);
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('gemini-diff-generator.start', () => { openChat(); }),
+		vscode.commands.registerCommand('gemini-diff-generator.editSelection', async () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				vscode.window.showErrorMessage("Open a file to edit part of it with Gemini.");
+				return;
+			}
+			const scope = await resolveEditScope(editor);
+			if (!scope) {
+				vscode.window.showErrorMessage("Select the code to edit, or place the cursor inside a function or class.");
+				return;
+			}
+
+			const instruction = await vscode.window.showInputBox({
+				title: `Edit ${describeScope(scope)}`,
+				prompt: 'Describe the change',
+				placeHolder: 'e.g. Handle the empty case and add a doc comment',
+			});
+			if (!instruction) { return; }
+
+			const chat = currentChat ?? openChat();
+			chat.panel.reveal(undefined, true);
+			await chat.requestScopedEdit(scope, instruction);
+		}),
+		// Run from the command palette for every problem in the active file, or from a quick fix for the ones under the cursor
+		vscode.commands.registerCommand('gemini-diff-generator.fixDiagnostics', async (uri?: vscode.Uri, diagnostics?: vscode.Diagnostic[]) => {
+			const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+			if (!target) {
+				vscode.window.showErrorMessage("Open a file to fix its problems with Gemini.");
+				return;
+			}
+			const problems = diagnostics ?? fixableDiagnostics(target);
+			if (problems.length === 0) {
+				vscode.window.showInformationMessage(`There are no errors or warnings in ${vscode.workspace.asRelativePath(target)}.`);
+				return;
+			}
+
+			const chat = currentChat ?? openChat();
+			chat.panel.reveal(undefined, true);
+			await chat.requestDiagnosticsFix(await vscode.workspace.openTextDocument(target), problems);
+		}),
+		vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, new FixDiagnosticsCodeActionProvider(), {
+			providedCodeActionKinds: FixDiagnosticsCodeActionProvider.providedCodeActionKinds,
+		}),
+	);
+}
+
+// Turns a request or title into a file name, falling back to `fallback` if nothing usable is left
+// One warning for every file with hunks that were placed by an approximate match
+function reportApproximateMatches(matches: ApproximateMatch[]) {
+	if (matches.length === 0) { return; }
+	vscode.window.showWarningMessage(`${matches.map(describeApproximateMatch).join('; ')}. Please review carefully.`);
 }
 
-function getWebviewContent(): string {
-	return `<!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Gemini Chat</title>
-        <script src="https://cdn.jsdelivr.net/npm/markdown-it@14.1.0/dist/markdown-it.min.js"></script>
-        <style>
-            body, html {
-                margin: 0;
-                padding: 0;
-                height: 100%;
-                overflow: hidden;
-                color: var(--vscode-editor-foreground);
-                background-color: var(--vscode-editor-background);
-                font-family: var(--vscode-font-family);
-            }
-            #chat-container { display: flex; flex-direction: column; height: 100vh; }
-            #messages { flex-grow: 1; overflow-y: auto; padding: 10px; }
-            .message {
-                margin-bottom: 15px; padding: 10px; max-width: 95%;
-                word-wrap: break-word; border-top: 1px solid var(--vscode-widget-border);
-            }
-            #messages .message:first-child { border-top: none; }
-            .message-header { font-weight: bold; margin-bottom: 8px; font-size: 0.9em; opacity: 0.8; }
-            .user-message { background-color: var(--vscode-side-bar-background); align-self: flex-end; }
-            .llm-message { background-color: var(--vscode-editor-background); align-self: flex-start; }
-            #bottom-container { padding: 10px; border-top: 1px solid var(--vscode-widget-border); flex-shrink: 0; }
-            #context-container { margin-bottom: 10px; }
-            #context-container summary { cursor: pointer; opacity: 0.8; }
-            #context-list { font-size: 0.9em; margin-top: 5px; }
-            .context-file-item { display: flex; align-items: center; margin-bottom: 3px; opacity: 0.8; }
-            .context-file-item span { flex-grow: 1; }
-            .remove-context-btn {
-                cursor: pointer; background: none; border: none; color: var(--vscode-editor-foreground);
-                font-weight: bold; margin-left: 8px; padding: 0 5px;
-            }
-            .remove-context-btn:hover { background-color: var(--vscode-button-secondary-background); }
-            #input-area { display: flex; position: relative; }
-            #user-input {
-                flex-grow: 1; background-color: var(--vscode-input-background);
-                color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border);
-                border-radius: 3px; padding: 8px; resize: none; font-family: var(--vscode-editor-font-family);
-            }
-            button {
-                margin-left: 10px; background-color: var(--vscode-button-background);
-                color: var(--vscode-button-foreground); border: none; padding: 8px 15px;
-                cursor: pointer; border-radius: 3px;
-            }
-            button:hover { background-color: var(--vscode-button-hover-background); }
-            .stop-button { background-color: var(--vscode-button-secondary-background); }
-            .stop-button:hover { background-color: var(--vscode-button-secondary-hover-background); }
-            .thoughts-section { border: 1px solid var(--vscode-widget-border); padding: 10px; margin-bottom: 10px; border-radius: 4px; }
-            .thoughts-section summary { cursor: pointer; font-weight: bold; margin-bottom: 5px; }
-            .thoughts-content {
-                background-color: var(--vscode-text-block-quote-background); border-left: 4px solid var(--vscode-text-block-quote-border);
-                padding: 5px 10px; border-radius: 3px; margin-top: 5px;
-            }
-            .diff-add { color: var(--vscode-gitDecoration-addedResourceForeground); }
-            .diff-del { color: var(--vscode-gitDecoration-deletedResourceForeground); }
-            pre code .diff-add, pre code .diff-del { display: block; }
-            .collapsible-code-wrapper { border: 1px solid var(--vscode-widget-border); border-radius: 4px; margin: 10px 0; background-color: var(--vscode-text-block-quote-background); }
-            .collapsible-code-wrapper pre { margin: 0; }
-            .collapsible-code-wrapper.collapsed pre { max-height: 5.5em; overflow: hidden; }
-            .toggle-code-button { width: 100%; border-top: 1px solid var(--vscode-widget-border); background-color: var(--vscode-editor-background); border-radius: 0 0 3px 3px; }
-            .cancelled-notice { color: orange; font-style: italic; margin-top: 10px; }
-            .code-block-header { display: flex; justify-content: space-between; align-items: center; padding: 4px 8px; background-color: var(--vscode-editor-widget-background); border-bottom: 1px solid var(--vscode-widget-border); border-radius: 4px 4px 0 0; }
-            .apply-button { margin-left: 0; padding: 2px 8px; font-size: 0.9em; background-color: var(--vscode-button-secondary-background); }
-            #autocomplete-popup {
-                position: absolute; bottom: 100%; left: 0; width: calc(100% - 100px); /* Adjust width */
-                background-color: #0c0c0c; border: 1px solid var(--vscode-widget-border);
-                border-radius: 4px; z-index: 1000; max-height: 150px; overflow-y: auto;
-            }
-            #autocomplete-popup div { padding: 5px 10px; cursor: pointer; }
-            #autocomplete-popup div:hover { background-color: var(--vscode-list-hover-background); }
-            #autocomplete-popup div.selected { background-color: var(--vscode-list-active-selection-background); }
-            .hidden { display: none; }
-        </style>
-    </head>
-    <body>
-        <div id="chat-container">
-            <div id="messages"></div>
-            <div id="bottom-container">
-                <div id="context-container">
-                    <details open>
-                        <summary>Context Sources</summary>
-                        <div id="context-list"></div>
-                    </details>
-                </div>
-                <div id="input-area">
-                    <textarea id="user-input" rows="3" placeholder="Enter your request... (@ to add files)"></textarea>
-                    <div id="autocomplete-popup" class="hidden"></div>
-                    <button id="send-button">Send</button>
-                </div>
-            </div>
-        </div>
-
-        <script>
-            const vscode = acquireVsCodeApi();
-            const md = window.markdownit();
-            const messagesDiv = document.getElementById('messages');
-            const userInput = document.getElementById('user-input');
-            const sendButton = document.getElementById('send-button');
-            const contextListDiv = document.getElementById('context-list');
-            const autocompletePopup = document.getElementById('autocomplete-popup');
-
-            let currentLlmMessageContainer = null;
-            let isGenerating = false;
-            let activeFile = '';
-            let contextFiles = new Set();
-            let autocompleteState = { active: false, word: '', options: [], selectedIndex: -1 };
-
-            function renderContextFiles() {
-                contextListDiv.innerHTML = '';
-                const activeItem = document.createElement('div');
-                activeItem.className = 'context-file-item';
-                activeItem.innerHTML = \`<span>\${activeFile} (Active)</span>\`;
-                contextListDiv.appendChild(activeItem);
-
-                contextFiles.forEach(file => {
-                    const item = document.createElement('div');
-                    item.className = 'context-file-item';
-                    item.innerHTML = \`<span>\${file}</span><button class="remove-context-btn" data-filepath="\${file}">✖</button>\`;
-                    contextListDiv.appendChild(item);
-                });
-            }
-
-            contextListDiv.addEventListener('click', (e) => {
-                const target = e.target;
-                if (target.classList.contains('remove-context-btn')) {
-                    const filePath = target.dataset.filepath;
-                    if (filePath) {
-                        contextFiles.delete(filePath);
-                        renderContextFiles();
-                    }
-                }
-            });
-
-            sendButton.addEventListener('click', handleSendOrStop);
-            
-            userInput.addEventListener('keydown', (e) => {
-                if (autocompleteState.active) {
-                    if (e.key === 'ArrowDown') {
-                        e.preventDefault();
-                        autocompleteState.selectedIndex = Math.min(autocompleteState.selectedIndex + 1, autocompleteState.options.length - 1);
-                        updateAutocompleteSelection();
-                    } else if (e.key === 'ArrowUp') {
-                        e.preventDefault();
-                        autocompleteState.selectedIndex = Math.max(autocompleteState.selectedIndex - 1, 0);
-                        updateAutocompleteSelection();
-                    } else if (e.key === 'Tab' || e.key === 'Enter') {
-                        e.preventDefault();
-                        selectAutocompleteOption();
-                    } else if (e.key === 'Escape' || e.key === ' ') {
-                        hideAutocomplete();
-                    }
-                } else if (e.key === 'Enter' && e.shiftKey) {
-                    e.preventDefault();
-                    if (!isGenerating) handleSendOrStop();
-                }
-            });
-
-            userInput.addEventListener('input', () => {
-                const text = userInput.value;
-                const cursorPos = userInput.selectionStart;
-                const textBeforeCursor = text.substring(0, cursorPos);
-                const match = textBeforeCursor.match(/(?:^|\\s)@(\\S*)$/);
-
-                if (match) {
-                    autocompleteState.active = true;
-                    autocompleteState.word = match[1];
-                    vscode.postMessage({ command: 'getWorkspaceFiles', query: autocompleteState.word });
-                } else {
-                    hideAutocomplete();
-                }
-            });
-
-            function showAutocomplete(suggestions) {
-                if (suggestions.length === 0) {
-                    hideAutocomplete();
-                    return;
-                }
-                autocompleteState.options = suggestions;
-                autocompleteState.selectedIndex = 0;
-                autocompletePopup.innerHTML = '';
-                suggestions.forEach((s, index) => {
-                    const item = document.createElement('div');
-                    item.textContent = s;
-                    if (index === 0) item.classList.add('selected');
-                    item.addEventListener('click', () => {
-                        autocompleteState.selectedIndex = index;
-                        selectAutocompleteOption();
-                    });
-                    autocompletePopup.appendChild(item);
-                });
-                autocompletePopup.classList.remove('hidden');
-            }
-
-            function hideAutocomplete() {
-                autocompleteState.active = false;
-                autocompletePopup.classList.add('hidden');
-            }
-            
-            function updateAutocompleteSelection() {
-                const items = autocompletePopup.children;
-                for (let i = 0; i < items.length; i++) {
-                    items[i].classList.toggle('selected', i === autocompleteState.selectedIndex);
-                }
-            }
-
-            function selectAutocompleteOption() {
-                if (autocompleteState.selectedIndex === -1) {
-                    hideAutocomplete();
-                    return;
-                }
-                const selectedFile = autocompleteState.options[autocompleteState.selectedIndex];
-                const text = userInput.value;
-                const cursorPos = userInput.selectionStart;
-                const textBeforeCursor = text.substring(0, cursorPos);
-                const textAfterCursor = text.substring(cursorPos);
-                const replacementText = selectedFile + ' ';
-
-                const newText = textBeforeCursor.replace(/@\\S*$/, replacementText) + textAfterCursor;
-                userInput.value = newText;
-                
-                contextFiles.add(selectedFile);
-                renderContextFiles();
-                hideAutocomplete();
-                userInput.focus();
-            }
-
-            window.addEventListener('message', event => {
-                const message = event.data;
-                switch (message.command) {
-                    case 'updateActiveFile':
-                        activeFile = message.filePath;
-                        renderContextFiles();
-                        break;
-                    case 'fileSuggestions':
-                        if (autocompleteState.active) {
-                            showAutocomplete(message.suggestions);
-                        }
-                        break;
-                    case 'streamThought':
-                        appendThought(message.text);
-                        break;
-                    case 'streamResponse':
-                        appendResponse(message.text);
-                        break;
-                    case 'generationComplete':
-                        finalizeGeneration(message.cancelled);
-                        break;
-                }
-            });
-
-            function handleSendOrStop() {
-                if (isGenerating) {
-                    vscode.postMessage({ command: 'stopGeneration' });
-                } else {
-                    const text = userInput.value;
-                    if (text) {
-                        addMessage(text, 'user-message', 'You');
-                        vscode.postMessage({ 
-                            command: 'sendMessage', 
-                            text: text,
-                            activeFile: activeFile,
-                            contextFiles: Array.from(contextFiles) 
-                        });
-                        userInput.value = '';
-                        prepareForLlmResponse();
-                    }
-                }
-            }
-            
-            function toggleButtonState(generating) {
-                isGenerating = generating;
-                sendButton.textContent = generating ? 'Stop' : 'Send';
-                sendButton.classList.toggle('stop-button', generating);
-            }
-
-            function addMessage(text, className, headerText) {
-                const messageElement = document.createElement('div');
-                messageElement.className = 'message ' + className;
-                messageElement.innerHTML = \`<div class="message-header">\${headerText}</div><div class="message-body">\${md.render(text)}</div>\`;
-                messagesDiv.appendChild(messageElement);
-                messagesDiv.scrollTop = messagesDiv.scrollHeight;
-            }
-
-            function prepareForLlmResponse() {
-                toggleButtonState(true);
-                const llmContainer = document.createElement('div');
-                llmContainer.className = 'message llm-message';
-                llmContainer.innerHTML = \` 
-                    <div class="message-header">Gemini</div>
-                    <details class="thoughts-section" open><summary>Thinking...</summary><div class="thoughts-content" style="display: none;"></div></details>
-                    <div class="answer-content"></div>\`;
-                messagesDiv.appendChild(llmContainer);
-                currentLlmMessageContainer = llmContainer;
-                messagesDiv.scrollTop = messagesDiv.scrollHeight;
-            }
-
-            function appendThought(text) {
-                if (!currentLlmMessageContainer) return;
-                const thoughtsContent = currentLlmMessageContainer.querySelector('.thoughts-content');
-                if (thoughtsContent.style.display === 'none') thoughtsContent.style.display = 'block';
-                thoughtsContent.innerHTML += md.render(text); // Using render to handle markdown in thoughts
-                messagesDiv.scrollTop = messagesDiv.scrollHeight;
-            }
-
-            function appendResponse(text) {
-                if (!currentLlmMessageContainer) return;
-                const answerContent = currentLlmMessageContainer.querySelector('.answer-content');
-                const currentText = answerContent.dataset.rawText || '';
-                const newText = currentText + text;
-                answerContent.dataset.rawText = newText;
-                answerContent.innerHTML = md.render(newText);
-                messagesDiv.scrollTop = messagesDiv.scrollHeight;
-            }
-
-            function finalizeGeneration(cancelled) {
-                toggleButtonState(false);
-                if (!currentLlmMessageContainer) return;
-
-                const thoughtsSection = currentLlmMessageContainer.querySelector('.thoughts-section');
-                const thoughtsContent = currentLlmMessageContainer.querySelector('.thoughts-content');
-                thoughtsSection.removeAttribute('open');
-                if (!thoughtsContent.hasChildNodes()) thoughtsSection.style.display = 'none';
-
-                if (cancelled) {
-                   const cancelledNotice = document.createElement('div');
-                   cancelledNotice.className = 'cancelled-notice';
-                   cancelledNotice.textContent = 'Generation stopped.';
-                   currentLlmMessageContainer.appendChild(cancelledNotice);
-                }
-                applyDiffHighlighting(currentLlmMessageContainer);
-                currentLlmMessageContainer = null;
-                userInput.focus();
-            }
-
-            function applyDiffHighlighting(element) {
-                const pres = element.querySelectorAll('pre');
-                pres.forEach(pre => {
-                    const code = pre.querySelector('code.language-diff');
-                    if (!code) return;
-                    
-                    const rawDiffText = code.textContent || '';
-                    const pathMatch = rawDiffText.match(/---\\s+a\\/([^\\n]+)/);
-                    const filePath = pathMatch ? pathMatch[1].trim() : null;
-
-                    const lines = code.innerHTML.split('\\n');
-                    const coloredContent = lines.map(line => {
-                        const escapedLine = line.replace(/</g, '&lt;').replace(/>/g, '&gt;');
-                        if (escapedLine.startsWith('+')) return \`<span class="diff-add">\${escapedLine}</span>\`;
-                        if (escapedLine.startsWith('-')) return \`<span class="diff-del">\${escapedLine}</span>\`;
-                        return escapedLine;
-                    }).join('\\n');
-                    code.innerHTML = coloredContent;
-
-                    const wrapper = document.createElement('div');
-                    wrapper.className = 'collapsible-code-wrapper';
-                    const header = document.createElement('div');
-                    header.className = 'code-block-header';
-                    header.innerHTML = \`<span style="max-width: 80%; overflow-x: auto;">Changes for: \${filePath || 'unknown file'}</span>\`;
-                    
-                    if (filePath) {
-                        const applyButton = document.createElement('button');
-                        applyButton.className = 'apply-button';
-                        applyButton.textContent = 'Apply & Review';
-                        header.appendChild(applyButton);
-                        applyButton.addEventListener('click', () => {
-                            vscode.postMessage({ command: 'applyDiff', diff: rawDiffText, filePath: filePath });
-                        });
-                    }
-
-                    pre.parentNode.insertBefore(wrapper, pre);
-                    wrapper.appendChild(header);
-                    wrapper.appendChild(pre);
-
-                    const button = document.createElement('button');
-                    button.className = 'toggle-code-button';
-                    wrapper.appendChild(button);
-
-                    if (lines.length > 4) {
-                        wrapper.classList.add('collapsed');
-                        button.textContent = 'Show Full Code';
-                    } else {
-                        button.style.display = 'none';
-                    }
-                    button.addEventListener('click', () => {
-                        wrapper.classList.toggle('collapsed');
-                        button.textContent = wrapper.classList.contains('collapsed') ? 'Show Full Code' : 'Hide Full Code';
-                    });
-                });
-            }
-        </script>
-    </body>
-    </html>`;
-}
\ No newline at end of file
+function fileNameFor(text: string, fallback: string): string {
+	const name = text.trim().split('\n')[0].toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 50).replace(/-+$/, '');
+	return name || fallback;
+}
+
+async function pickSession(sessions: SessionStore) {
+	const items = sessions.sessions().map(session => ({
+		label: session.title,
+		description: new Date(session.updatedAt).toLocaleString(),
+		session,
+	}));
+	if (items.length === 0) {
+		vscode.window.showInformationMessage("There are no saved chats.");
+		return undefined;
+	}
+	return (await vscode.window.showQuickPick(items, { placeHolder: 'Select a chat' }))?.session;
+}
+
+async function pickHistoryEntry(history: ChangeHistory) {
+	const items = history.entries().filter(entry => !entry.revertedAt).map(entry => ({
+		label: entry.prompt.trim().split('\n')[0] || 'Applied changes',
+		description: new Date(entry.timestamp).toLocaleString(),
+		detail: entry.files.map(file => file.filePath).join(', '),
+		entry,
+	}));
+	if (items.length === 0) {
+		vscode.window.showInformationMessage("There are no applied changes to revert.");
+		return undefined;
+	}
+	return (await vscode.window.showQuickPick(items, { placeHolder: 'Select a change to revert' }))?.entry;
+}
+
+// The folders the chat panel may load files from
+function webviewRoots(extensionUri: vscode.Uri): vscode.Uri[] {
+	return [
+		vscode.Uri.joinPath(extensionUri, 'src', 'webview'),
+		vscode.Uri.joinPath(extensionUri, 'node_modules', 'markdown-it', 'dist'),
+	];
+}
+
+/**
+ * The chat panel's HTML, from `src/webview/index.html`. Its styles and scripts are loaded from the extension, and the
+ * content security policy only runs scripts carrying this page's nonce, so nothing rendered in the chat can run code.
+ */
+function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri): string {
+	const [webviewRoot, markdownItRoot] = webviewRoots(extensionUri);
+	const nonce = crypto.randomBytes(16).toString('base64');
+	const csp = [
+		`default-src 'none'`,
+		`style-src ${webview.cspSource}`,
+		`script-src 'nonce-${nonce}'`,
+		`img-src ${webview.cspSource}`,
+		`font-src ${webview.cspSource}`,
+	].join('; ');
+	const values: Record<string, string> = {
+		csp,
+		nonce,
+		styleUri: webview.asWebviewUri(vscode.Uri.joinPath(webviewRoot, 'style.css')).toString(),
+		scriptUri: webview.asWebviewUri(vscode.Uri.joinPath(webviewRoot, 'main.js')).toString(),
+		markdownItUri: webview.asWebviewUri(vscode.Uri.joinPath(markdownItRoot, 'markdown-it.min.js')).toString(),
+	};
+	const html = fs.readFileSync(vscode.Uri.joinPath(webviewRoot, 'index.html').fsPath, 'utf8');
+	return html.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { AppliedChangeset } from './changeset';
+import { applyHunks } from './diff/apply';
+import { createUnifiedDiff } from './diff/format';
+import { FilePatchKind, Hunk, parsePatch } from './diff/parse';
+import { resolveWorkspacePath } from './workspacePaths';
+
+export interface HistoryFileChange {
+	kind: FilePatchKind;
+	filePath: string;
+	oldPath?: string;
+	/** Unified diff from the content before the change to the content after it. */
+	diff: string;
+	beforeHash: string;
+	afterHash: string;
+}
+
+export interface HistoryEntry {
+	id: string;
+	timestamp: number;
+	prompt: string;
+	files: HistoryFileChange[];
+	revertedAt?: number;
+}
+
+export type HistoryNode =
+	| { type: 'entry', entry: HistoryEntry }
+	| { type: 'file', entry: HistoryEntry, file: HistoryFileChange };
+
+const STORAGE_KEY = 'gemini-diff-generator.history';
+const MAX_ENTRIES = 100;
+
+function hash(content: string): string {
+	return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function reverseHunk(hunk: Hunk): Hunk {
+	return {
+		oldStart: hunk.newStart,
+		oldLines: hunk.newLines,
+		newStart: hunk.oldStart,
+		newLines: hunk.oldLines,
+		lines: hunk.lines.map(line => ({
+			type: line.type === 'add' ? 'remove' : line.type === 'remove' ? 'add' : 'context',
+			content: line.content,
+		})),
+	};
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+	try {
+		return (await vscode.workspace.openTextDocument(uri)).getText();
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * A log of every change applied from a changeset, kept in workspace state so it outlives the editors' undo stacks.
+ * It is shown in the "Gemini History" view, from where a change can be reverted.
+ */
+export class ChangeHistory implements vscode.TreeDataProvider<HistoryNode> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	constructor(private readonly state: vscode.Memento) { }
+
+	entries(): HistoryEntry[] {
+		return this.state.get<HistoryEntry[]>(STORAGE_KEY, []);
+	}
+
+	async record({ changeset, applied }: AppliedChangeset) {
+		const files = applied.map(({ file, content }) => ({
+			kind: file.kind,
+			filePath: file.filePath,
+			oldPath: file.oldPath,
+			diff: createUnifiedDiff(
+				file.kind === 'create' ? undefined : file.oldPath ?? file.filePath,
+				file.kind === 'delete' ? undefined : file.filePath,
+				file.originalText,
+				content
+			),
+			beforeHash: hash(file.originalText),
+			afterHash: hash(content),
+		}));
+
+		const entry: HistoryEntry = { id: crypto.randomUUID(), timestamp: Date.now(), prompt: changeset.prompt, files };
+		await this.save([entry, ...this.entries()].slice(0, MAX_ENTRIES));
+	}
+
+	async clear() {
+		await this.save([]);
+	}
+
+	async showDiff(file: HistoryFileChange) {
+		const document = await vscode.workspace.openTextDocument({ content: file.diff, language: 'diff' });
+		await vscode.window.showTextDocument(document, { preview: true });
+	}
+
+	/**
+	 * Reverse-applies every file of an entry in one workspace edit. Files edited since the change was applied are
+	 * listed first, and the revert only goes ahead if the user confirms and the reversed diff still applies.
+	 */
+	async revert(entry: HistoryEntry) {
+		const edit = new vscode.WorkspaceEdit();
+		const diverged: string[] = [];
+		const failed: string[] = [];
+
+		for (const file of entry.files) {
+			let currentUri: vscode.Uri;
+			let oldUri: vscode.Uri | undefined;
+			try {
+				currentUri = (await resolveWorkspacePath(file.filePath)).uri;
+				oldUri = file.oldPath !== undefined ? (await resolveWorkspacePath(file.oldPath)).uri : undefined;
+			} catch (e) {
+				failed.push(e instanceof Error ? e.message : String(e));
+				continue;
+			}
+			const current = file.kind === 'delete' ? undefined : await readText(currentUri);
+			if (file.kind !== 'delete' && current === undefined) {
+				failed.push(`${file.filePath} no longer exists`);
+				continue;
+			}
+			if (current !== undefined && hash(current) !== file.afterHash) {
+				diverged.push(file.filePath);
+			}
+
+			const hunks = parsePatch(file.diff).flatMap(patch => patch.hunks).map(reverseHunk);
+			switch (file.kind) {
+				case 'create':
+					edit.deleteFile(currentUri, { ignoreIfNotExists: true });
+					break;
+				case 'delete': {
+					const content = hunks.flatMap(hunk => hunk.lines.filter(line => line.type === 'add').map(line => line.content)).join('\n');
+					edit.createFile(currentUri, { overwrite: false });
+					edit.insert(currentUri, new vscode.Position(0, 0), content);
+					break;
+				}
+				case 'modify':
+				case 'rename': {
+					const result = applyHunks(current!, hunks);
+					if (result.appliedHunks < result.totalHunks) {
+						failed.push(`${result.totalHunks - result.appliedHunks} of ${result.totalHunks} changes to ${file.filePath} could not be reversed`);
+						continue;
+					}
+					const document = await vscode.workspace.openTextDocument(currentUri);
+					edit.replace(currentUri, new vscode.Range(document.positionAt(0), document.positionAt(current!.length)), result.content);
+					if (file.kind === 'rename') {
+						edit.renameFile(currentUri, oldUri!, { overwrite: false });
+					}
+					break;
+				}
+			}
+		}
+
+		if (failed.length > 0) {
+			vscode.window.showErrorMessage(`Could not revert this change: ${failed.join('; ')}.`);
+			return;
+		}
+		if (diverged.length > 0) {
+			const selection = await vscode.window.showWarningMessage(
+				`These files changed after the change was applied: ${diverged.join(', ')}. Revert anyway?`,
+				{ modal: true }, 'Revert Anyway'
+			);
+			if (selection !== 'Revert Anyway') { return; }
+		}
+
+		if (!await vscode.workspace.applyEdit(edit)) {
+			vscode.window.showErrorMessage("Failed to revert the change.");
+			return;
+		}
+		await this.save(this.entries().map(e => e.id === entry.id ? { ...e, revertedAt: Date.now() } : e));
+		vscode.window.showInformationMessage(`Reverted changes to ${entry.files.length} file(s).`);
+	}
+
+	getTreeItem(node: HistoryNode): vscode.TreeItem {
+		if (node.type === 'file') {
+			const item = new vscode.TreeItem(node.file.filePath);
+			item.description = node.file.kind === 'modify' ? '' : node.file.kind === 'rename' ? `renamed from ${node.file.oldPath}` : node.file.kind === 'create' ? 'created' : 'deleted';
+			item.iconPath = new vscode.ThemeIcon('diff');
+			item.contextValue = 'historyFile';
+			item.command = { command: 'gemini-diff-generator.showHistoryDiff', title: 'Show Diff', arguments: [node] };
+			return item;
+		}
+
+		const { entry } = node;
+		const firstLine = entry.prompt.trim().split('\n')[0] || 'Applied changes';
+		const item = new vscode.TreeItem(firstLine, vscode.TreeItemCollapsibleState.Collapsed);
+		const time = new Date(entry.timestamp).toLocaleString();
+		item.description = entry.revertedAt ? `${time} · reverted` : time;
+		item.tooltip = entry.prompt || undefined;
+		item.iconPath = new vscode.ThemeIcon(entry.revertedAt ? 'discard' : 'history');
+		item.contextValue = entry.revertedAt ? 'historyEntry.reverted' : 'historyEntry';
+		return item;
+	}
+
+	getChildren(node?: HistoryNode): HistoryNode[] {
+		if (!node) {
+			return this.entries().map(entry => ({ type: 'entry', entry }));
+		}
+		return node.type === 'entry' ? node.entry.files.map(file => ({ type: 'file', entry: node.entry, file })) : [];
+	}
+
+	private async save(entries: HistoryEntry[]) {
+		await this.state.update(STORAGE_KEY, entries);
+		this.changeEmitter.fire();
+	}
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { ChangesetReview, supportsHunkReview } from './changeset';
+
+/**
+ * Puts accept/reject actions above each hunk of a review document, plus actions for all remaining hunks at the top.
+ */
+export class HunkCodeLensProvider implements vscode.CodeLensProvider {
+	readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+	constructor(private readonly review: ChangesetReview) {
+		this.onDidChangeCodeLenses = review.onDidChangeHunks;
+	}
+
+	provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+		const file = this.review.findFile(document.uri);
+		if (!file || file.decision !== 'pending' || !supportsHunkReview(file)) { return []; }
+
+		const pending = this.review.reviewHunks(file).filter(hunk => !hunk.accepted);
+		if (pending.length === 0) { return []; }
+
+		const top = new vscode.Range(0, 0, 0, 0);
+		const lenses = [
+			new vscode.CodeLens(top, { title: `$(check-all) Accept remaining (${pending.length})`, command: 'gemini-diff-generator.acceptRemainingHunks', arguments: [document.uri] }),
+			new vscode.CodeLens(top, { title: '$(close-all) Reject remaining', command: 'gemini-diff-generator.rejectRemainingHunks', arguments: [document.uri] }),
+		];
+		for (const hunk of pending) {
+			const line = Math.min(hunk.change.modifiedStart, document.lineCount - 1);
+			const range = new vscode.Range(line, 0, line, 0);
+			lenses.push(
+				new vscode.CodeLens(range, { title: '$(check) Accept hunk', command: 'gemini-diff-generator.acceptHunk', arguments: [document.uri, hunk.key] }),
+				new vscode.CodeLens(range, { title: '$(close) Reject hunk', command: 'gemini-diff-generator.rejectHunk', arguments: [document.uri, hunk.key] }),
+			);
+		}
+		return lenses;
+	}
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { requireWorkspaceFolders, resolveWorkspacePath, toWorkspacePath } from './workspacePaths';
+
+/**
+ * Something added to the context with an `@` mention in the chat input:
+ * - `file`: a workspace file.
+ * - `folder`: a folder's tree, and as many of its files as fit the budget.
+ * - `symbol`: a symbol found through workspace symbol search.
+ * - `git`: a git diff, either `staged` or against a revision such as `HEAD~1`.
+ * - `problems`: the current diagnostics for the context files.
+ * - `selection`: the current selection in the editor.
+ */
+export type MentionType = 'file' | 'folder' | 'symbol' | 'git' | 'problems' | 'selection';
+
+export interface Mention {
+	type: MentionType;
+	/** The path, symbol name or git revision. Empty for `problems` and `selection`. */
+	value: string;
+	/** Where a symbol is, so it doesn't need to be searched for again. */
+	location?: { filePath: string, startLine: number, endLine: number };
+}
+
+export interface MentionSuggestion {
+	/** The text shown, and inserted after the `@`. */
+	label: string;
+	detail?: string;
+	/** Unset for suggestions that only complete the mention's type, such as `folder:`, and need more typing. */
+	mention?: Mention;
+}
+
+/** What the mentions add to the prompt: text for each, and the files a folder mention adds. */
+export interface ResolvedMentions {
+	text: string;
+	files: string[];
+}
+
+const EXCLUDE = '**/{node_modules,.git}/**';
+const MAX_SUGGESTIONS = 10;
+const MAX_FOLDER_TREE = 200;
+const MAX_FOLDER_FILES = 20;
+const MAX_GIT_DIFF_CHARS = 60000;
+const GIT_REVISION = /^[\w.^~/@{}-]+$/;
+
+const execFileAsync = promisify(execFile);
+
+const TYPE_SUGGESTIONS: MentionSuggestion[] = [
+	{ label: 'folder:', detail: 'A folder and its files' },
+	{ label: 'symbol:', detail: 'A function, class or other symbol' },
+	{ label: 'git:staged', detail: 'The staged changes', mention: { type: 'git', value: 'staged' } },
+	{ label: 'git:HEAD', detail: 'Uncommitted changes', mention: { type: 'git', value: 'HEAD' } },
+	{ label: 'git:HEAD~1', detail: 'Changes since the previous commit', mention: { type: 'git', value: 'HEAD~1' } },
+	{ label: 'problems', detail: 'Errors and warnings in the context files', mention: { type: 'problems', value: '' } },
+	{ label: 'selection', detail: 'The selection in the editor', mention: { type: 'selection', value: '' } },
+	{ label: 'search:', detail: 'Code matching a search' },
+];
+
+/** Finds folders whose name contains `query`. */
+async function suggestFolders(query: string): Promise<MentionSuggestion[]> {
+	const files = await vscode.workspace.findFiles(`**/*${query}*/**`, EXCLUDE, 500);
+	const folders = new Set<string>();
+	for (const file of files) {
+		let folder = path.posix.dirname(toWorkspacePath(file));
+		while (folder !== '.' && !path.posix.basename(folder).toLowerCase().includes(query.toLowerCase())) {
+			folder = path.posix.dirname(folder);
+		}
+		if (folder !== '.') { folders.add(folder); }
+	}
+	return [...folders].sort().slice(0, MAX_SUGGESTIONS).map(folder => ({ label: `folder:${folder}`, mention: { type: 'folder', value: folder } }));
+}
+
+async function suggestSymbols(query: string): Promise<MentionSuggestion[]> {
+	if (!query) { return []; }
+	const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', query) ?? [];
+	return symbols
+		.filter(symbol => symbol.location.uri.scheme === 'file' && !/(^|\/)(node_modules|\.git)\//.test(symbol.location.uri.path))
+		.slice(0, MAX_SUGGESTIONS)
+		.map(symbol => {
+			const filePath = toWorkspacePath(symbol.location.uri);
+			const { start, end } = symbol.location.range;
+			return {
+				label: `symbol:${symbol.name}`,
+				detail: `${vscode.SymbolKind[symbol.kind]} in ${filePath}:${start.line + 1}`,
+				mention: { type: 'symbol', value: symbol.name, location: { filePath, startLine: start.line, endLine: end.line } },
+			};
+		});
+}
+
+/**
+ * Suggests mentions for what the user typed after `@`: the mention types, and the files, folders, symbols or
+ * git revisions that match once a type is chosen.
+ */
+export async function suggestMentions(query: string): Promise<MentionSuggestion[]> {
+	if (query.startsWith('folder:')) { return suggestFolders(query.substring('folder:'.length)); }
+	if (query.startsWith('symbol:')) { return suggestSymbols(query.substring('symbol:'.length)); }
+	if (query.startsWith('git:')) {
+		const revision = query.substring('git:'.length);
+		const suggestions = TYPE_SUGGESTIONS.filter(suggestion => suggestion.mention?.type === 'git' && suggestion.label.startsWith(query));
+		if (revision && GIT_REVISION.test(revision) && !revision.startsWith('-') && !suggestions.some(s => s.label === query)) {
+			suggestions.push({ label: query, detail: `Changes since ${revision}`, mention: { type: 'git', value: revision } });
+		}
+		return suggestions;
+	}
+
+	const types = TYPE_SUGGESTIONS.filter(suggestion => suggestion.label.startsWith(query.toLowerCase()));
+	if (!query) { return types; }
+	const files = await vscode.workspace.findFiles(`**/*${query}*`, EXCLUDE);
+	const fileSuggestions = files.slice(0, MAX_SUGGESTIONS).map(file => {
+		const filePath = toWorkspacePath(file);
+		return { label: filePath, mention: { type: 'file' as const, value: filePath } };
+	});
+	return [...types, ...fileSuggestions];
+}
+
+async function resolveFolder(folder: string): Promise<ResolvedMentions> {
+	const { folder: workspaceFolder, relativePath } = await resolveWorkspacePath(folder);
+	const files = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder, relativePath ? `${relativePath}/**` : '**'), EXCLUDE, MAX_FOLDER_TREE);
+	const paths = files.map(toWorkspacePath).sort();
+	const more = files.length === MAX_FOLDER_TREE ? `\n[... more files not listed ...]` : '';
+	return {
+		text: `--- Folder: ${folder} ---\n${paths.join('\n')}${more}\n--- End Folder: ${folder} ---\n\n`,
+		files: paths.slice(0, MAX_FOLDER_FILES),
+	};
+}
+
+async function resolveSymbol(mention: Mention): Promise<string> {
+	const location = mention.location;
+	if (!location) { return ''; }
+	const document = await vscode.workspace.openTextDocument((await resolveWorkspacePath(location.filePath)).uri);
+	const range = new vscode.Range(location.startLine, 0, location.endLine, document.lineAt(Math.min(location.endLine, document.lineCount - 1)).text.length);
+	const label = `${mention.value} in ${location.filePath} (lines ${location.startLine + 1}-${location.endLine + 1})`;
+	return `--- Symbol: ${label} ---\n${document.getText(range)}\n--- End Symbol: ${label} ---\n\n`;
+}
+
+/**
+ * Runs `git diff` in each workspace folder. In a multi-root workspace each folder's diff is labelled with its name,
+ * and folders that aren't git repositories are skipped unless none of them is.
+ */
+async function resolveGit(revision: string): Promise<string> {
+	if (revision !== 'staged' && (!GIT_REVISION.test(revision) || revision.startsWith('-'))) {
+		throw new Error(`Not a git revision: ${revision}`);
+	}
+	const folders = requireWorkspaceFolders();
+	const args = revision === 'staged' ? ['diff', '--staged'] : ['diff', revision, '--'];
+	const sections: string[] = [];
+	let firstError: unknown;
+	for (const folder of folders) {
+		let stdout: string;
+		try {
+			({ stdout } = await execFileAsync('git', args, { cwd: folder.uri.fsPath, maxBuffer: 16 * 1024 * 1024 }));
+		} catch (e) {
+			firstError ??= e;
+			continue;
+		}
+		const diff = stdout.length > MAX_GIT_DIFF_CHARS ? `${stdout.substring(0, MAX_GIT_DIFF_CHARS)}\n[... rest of the diff omitted ...]` : stdout;
+		const label = `${revision === 'staged' ? 'staged changes' : `changes since ${revision}`}${folders.length > 1 ? ` in ${folder.name}` : ''}`;
+		sections.push(`--- Git diff: ${label} ---\n${diff || '(no changes)'}\n--- End Git diff: ${label} ---\n\n`);
+	}
+	if (sections.length === 0) { throw firstError; }
+	return sections.join('');
+}
+
+async function resolveProblems(contextFiles: string[]): Promise<string> {
+	const lines: string[] = [];
+	for (const filePath of contextFiles) {
+		for (const diagnostic of vscode.languages.getDiagnostics((await resolveWorkspacePath(filePath)).uri)) {
+			const { line, character } = diagnostic.range.start;
+			const source = diagnostic.source ? ` (${diagnostic.source})` : '';
+			lines.push(`${filePath}:${line + 1}:${character + 1} ${vscode.DiagnosticSeverity[diagnostic.severity].toLowerCase()}: ${diagnostic.message}${source}`);
+		}
+	}
+	return `--- Problems ---\n${lines.length > 0 ? lines.join('\n') : '(no problems in the context files)'}\n--- End Problems ---\n\n`;
+}
+
+function resolveSelection(editor: vscode.TextEditor | undefined): string {
+	if (!editor || editor.selection.isEmpty) { return ''; }
+	const { start, end } = editor.selection;
+	const label = `${toWorkspacePath(editor.document.uri)} (lines ${start.line + 1}-${end.line + 1})`;
+	return `--- Selection: ${label} ---\n${editor.document.getText(editor.selection)}\n--- End Selection: ${label} ---\n\n`;
+}
+
+/**
+ * Turns the mentions into prompt text. File mentions are read with the other context files, so they are skipped here;
+ * `contextFiles` are the files `@problems` reports on, and `editor` is where `@selection` comes from.
+ */
+export async function resolveMentions(mentions: Mention[], contextFiles: string[], editor: vscode.TextEditor | undefined): Promise<ResolvedMentions> {
+	const resolved: ResolvedMentions = { text: '', files: [] };
+	for (const mention of mentions) {
+		try {
+			switch (mention.type) {
+				case 'folder': {
+					const folder = await resolveFolder(mention.value);
+					resolved.text += folder.text;
+					resolved.files.push(...folder.files);
+					break;
+				}
+				case 'symbol':
+					resolved.text += await resolveSymbol(mention);
+					break;
+				case 'git':
+					resolved.text += await resolveGit(mention.value);
+					break;
+				case 'problems':
+					resolved.text += await resolveProblems(contextFiles);
+					break;
+				case 'selection':
+					resolved.text += resolveSelection(editor);
+					break;
+			}
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			vscode.window.showWarningMessage(`Could not add @${mention.type}${mention.value ? `:${mention.value}` : ''} to the context: ${errorMessage}`);
+		}
+	}
+	return resolved;
+}
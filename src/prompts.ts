@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import { describeWorkspaceLayout } from './workspacePaths';
+
+/**
+ * The placeholders a prompt template can use:
+ * - `{{instructions}}`: the project's instructions, from the settings and `.gemini-diff/instructions.md`.
+ * - `{{workspace}}`: the workspace's root folders, when it has more than one.
+ * - `{{context}}`: the context files, mentions and search results; in a fix request, what failed and the files it is in.
+ * - `{{request}}`: the user's request, quoted so its text can't be mistaken for the rest of the prompt.
+ * - `{{outputFormat}}`: how to answer: diffs in code blocks, or in agent mode the `proposeDiff` tool.
+ * Each value ends with a blank line when it isn't empty, so placeholders can be written one after another.
+ */
+export type Placeholder = 'instructions' | 'workspace' | 'context' | 'request' | 'outputFormat';
+
+export type PromptMode = 'chat' | 'agent';
+
+/** The requests the extension makes itself, to fix a change that failed to apply, a file's problems or a failed verification. */
+export type FixTemplateName = 'repair' | 'fixDiagnostics' | 'fixVerification';
+
+/** What a fix request puts in its template's `{{context}}`, `{{request}}` and `{{outputFormat}}`. */
+export interface FixRequest {
+	context: string;
+	request: string;
+	outputFormat: string;
+}
+
+export interface PromptTemplate {
+	name: string;
+	description: string;
+	template: string;
+	/** Where the template comes from, shown with its slash command. */
+	source: 'built-in' | 'settings' | 'workspace';
+}
+
+/** A template the user can pick by starting a request with `/name`. */
+export interface SlashCommand {
+	name: string;
+	description: string;
+}
+
+export class UnknownCommandError extends Error {
+	constructor(readonly command: string, readonly commands: SlashCommand[]) {
+		super(`There is no /${command} command. Use one of ${commands.map(c => `/${c.name}`).join(', ')}, or add a template for it.`);
+		this.name = 'UnknownCommandError';
+	}
+}
+
+const SECTION = 'gemini-diff-generator';
+const CONFIG_FOLDER = '.gemini-diff';
+const INSTRUCTIONS_FILE = 'instructions.md';
+const TEMPLATES_FOLDER = 'templates';
+// Used without a slash command; they can be overridden but aren't offered as commands
+const CHAT_TEMPLATE = 'default';
+const AGENT_TEMPLATE = 'agent';
+const HIDDEN_TEMPLATES = new Set<string>([CHAT_TEMPLATE, AGENT_TEMPLATE, 'repair', 'fixDiagnostics', 'fixVerification']);
+const SLASH_COMMAND = /^\/([\w-]+)(?:\s+|$)/;
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+const DIFF_FORMAT = `If your response involves making changes to any of the provided files, you MUST generate a SEPARATE diff for EACH file you modify.
+Each diff must be in its own Markdown code block with the language identifier 'diff'.
+The diff header MUST include the full relative file path using the format '--- a/path/to/file.ext' and '+++ b/path/to/file.ext'.
+To create a new file, use '--- /dev/null' and '+++ b/path/to/new-file.ext' with every line added. To delete a file, use '--- a/path/to/file.ext' and '+++ /dev/null'.
+To rename or move a file, use the old path in the '--- a/' header and the new path in the '+++ b/' header.
+Pay meticulous attention to preserving the original file's indentation and whitespace for all context lines. Each line in a hunk must start with '+', '-', or a space.
+
+For example:
+\`\`\`diff
+--- a/src/component.js
++++ b/src/component.js
+@@ -1,3 +1,4 @@
+ import React from 'react';
+
++console.log('hello');
+ function MyComponent() {
+\`\`\`
+If you are not suggesting changes to any files, do not generate a diff.`;
+
+const AGENT_FORMAT = `To change a file, call proposeDiff with a unified diff for that one file, using the headers '--- a/path/to/file.ext' and '+++ b/path/to/file.ext'.
+Copy every context and removed line exactly from the file, including indentation. If a diff is declined or does not apply, the tool says why.
+When you are done, briefly summarize what you changed and why, without repeating the diffs.`;
+
+const BODY = `{{instructions}}{{workspace}}{{context}}{{request}}{{outputFormat}}`;
+
+const BUILT_IN_TEMPLATES: Omit<PromptTemplate, 'source'>[] = [
+	{
+		name: CHAT_TEMPLATE,
+		description: 'Requests without a slash command',
+		template: `You are an expert programmer. Your task is to respond to the user's request based on the provided file contexts.
+
+${BODY}`,
+	},
+	{
+		name: AGENT_TEMPLATE,
+		description: 'Requests in agent mode without a slash command',
+		template: `You are an expert programmer working in the user's workspace. You can call tools to read files, list folders, search the code and see its problems.
+Start from the files below, and read or search for anything else you need before changing it.
+
+${BODY}`,
+	},
+	{
+		name: 'refactor',
+		description: 'Restructure code without changing what it does',
+		template: `You are an expert programmer. Refactor the code the user points to as they ask: improve its structure and readability without changing what it does.
+Keep public names and behavior unless the request says otherwise, and keep the change focused on what was asked.
+
+${BODY}`,
+	},
+	{
+		name: 'test',
+		description: 'Write or update tests',
+		template: `You are an expert programmer. Write or update tests for the code the user points to.
+Follow the test framework, file layout and naming the project already uses, as seen in the files below. Cover the usual cases, edge cases and errors.
+Don't change the code under test unless the request asks for it.
+
+${BODY}`,
+	},
+	{
+		name: 'explain',
+		description: 'Explain code without changing it',
+		template: `You are an expert programmer. Explain the code the user asks about: what it does, how it works and why. Refer to files and line numbers, and quote short excerpts where they help.
+
+{{instructions}}{{workspace}}{{context}}{{request}}Answer in prose. Do not generate diffs or change any files.`,
+	},
+	{
+		name: 'repair',
+		description: 'Fixing changes that could not be applied',
+		template: BODY,
+	},
+	{
+		name: 'fixDiagnostics',
+		description: 'Fixing the problems VS Code reports in a file',
+		template: `You are an expert programmer. Your task is to fix the problems VS Code reports in a file.
+
+${BODY}`,
+	},
+	{
+		name: 'fixVerification',
+		description: 'Fixing what made verification fail',
+		template: BODY,
+	},
+];
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+	try {
+		return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * The prompt templates by name. Built-in templates can be overridden, and new ones added, in the
+ * `promptTemplates` setting or as `.gemini-diff/templates/<name>.md` in a workspace folder; workspace files win.
+ */
+export async function loadPromptTemplates(): Promise<Map<string, PromptTemplate>> {
+	const templates = new Map<string, PromptTemplate>(BUILT_IN_TEMPLATES.map(template => [template.name, { ...template, source: 'built-in' }]));
+
+	const configured = vscode.workspace.getConfiguration(SECTION).get<Record<string, { description?: string, template?: string }>>('promptTemplates', {});
+	for (const [name, { description, template }] of Object.entries(configured)) {
+		if (typeof template !== 'string' || !template.trim()) { continue; }
+		templates.set(name, { name, description: description ?? templates.get(name)?.description ?? 'Template from the settings', template, source: 'settings' });
+	}
+
+	for (const folder of vscode.workspace.workspaceFolders ?? []) {
+		const templatesUri = vscode.Uri.joinPath(folder.uri, CONFIG_FOLDER, TEMPLATES_FOLDER);
+		let entries: [string, vscode.FileType][];
+		try {
+			entries = await vscode.workspace.fs.readDirectory(templatesUri);
+		} catch {
+			continue;
+		}
+		for (const [fileName, type] of entries) {
+			if (type !== vscode.FileType.File || !fileName.endsWith('.md')) { continue; }
+			const template = await readText(vscode.Uri.joinPath(templatesUri, fileName));
+			if (!template?.trim()) { continue; }
+			const name = fileName.slice(0, -'.md'.length);
+			templates.set(name, { name, description: templates.get(name)?.description ?? `Template from ${CONFIG_FOLDER}/${TEMPLATES_FOLDER}`, template, source: 'workspace' });
+		}
+	}
+	return templates;
+}
+
+/** The templates that can be picked with a slash command, sorted by name. */
+export function slashCommands(templates: Map<string, PromptTemplate>): SlashCommand[] {
+	return [...templates.values()]
+		.filter(template => !HIDDEN_TEMPLATES.has(template.name))
+		.map(({ name, description, source }) => ({ name, description: source === 'built-in' ? description : `${description} (${source})` }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Splits a leading `/name` off a request. `command` is unset if the request doesn't start with one. */
+export function parseSlashCommand(text: string): { command?: string, request: string } {
+	const match = text.match(SLASH_COMMAND);
+	return match ? { command: match[1], request: text.substring(match[0].length) } : { request: text };
+}
+
+/**
+ * The project's instructions for the model: the `instructions` setting, then `.gemini-diff/instructions.md` from
+ * each workspace folder. Empty if there are none.
+ */
+export async function readProjectInstructions(): Promise<string> {
+	const sections: string[] = [];
+	const configured = vscode.workspace.getConfiguration(SECTION).get<string>('instructions', '').trim();
+	if (configured) { sections.push(configured); }
+
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	for (const folder of folders) {
+		const text = (await readText(vscode.Uri.joinPath(folder.uri, CONFIG_FOLDER, INSTRUCTIONS_FILE)))?.trim();
+		if (text) { sections.push(folders.length > 1 ? `For files in ${folder.name}:\n${text}` : text); }
+	}
+	if (sections.length === 0) { return ''; }
+	return `Follow these project instructions in everything you write:
+--- Project Instructions ---
+${sections.join('\n\n')}
+--- End Project Instructions ---
+
+`;
+}
+
+/**
+ * Quotes the user's text in a code fence longer than any run of backticks in it, so nothing in the text can end
+ * the quote and pass for instructions.
+ */
+export function formatRequest(text: string): string {
+	const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	return `The user's request is:
+${fence}
+${text.trim()}
+${fence}
+
+`;
+}
+
+/**
+ * Fills in a template's placeholders. Values are inserted in one pass, so placeholders in them (in a file or in the
+ * request) are left as they are. Unknown placeholders are left too. A template without `{{request}}` gets the
+ * request at the end, so it is never lost.
+ */
+export function renderTemplate(template: string, values: Record<Placeholder, string>): string {
+	const filled = template.replace(PLACEHOLDER, (placeholder, name: string) => Object.prototype.hasOwnProperty.call(values, name) ? values[name as Placeholder] : placeholder);
+	return template.includes('{{request}}') ? filled : `${filled.trimEnd()}\n\n${values.request}`;
+}
+
+/**
+ * Builds the prompt for a request from the chat input. A leading slash command picks the template; otherwise the
+ * default or agent template is used. Throws an `UnknownCommandError` for a slash command with no template.
+ */
+export async function buildPrompt(text: string, context: string, mode: PromptMode): Promise<string> {
+	const templates = await loadPromptTemplates();
+	const { command, request } = parseSlashCommand(text);
+	const template = command !== undefined && HIDDEN_TEMPLATES.has(command) ? undefined : templates.get(command ?? (mode === 'agent' ? AGENT_TEMPLATE : CHAT_TEMPLATE));
+	if (!template) { throw new UnknownCommandError(command!, slashCommands(templates)); }
+
+	return renderTemplate(template.template, {
+		instructions: await readProjectInstructions(),
+		workspace: describeWorkspaceLayout(),
+		context,
+		request: formatRequest(request),
+		outputFormat: mode === 'agent' ? AGENT_FORMAT : DIFF_FORMAT,
+	});
+}
+
+/**
+ * Builds the prompt for a request the extension makes itself, from its template and with the project's
+ * instructions, as for requests from the chat input.
+ */
+export async function buildFixPrompt(name: FixTemplateName, { context, request, outputFormat }: FixRequest): Promise<string> {
+	const template = (await loadPromptTemplates()).get(name)!;
+	return renderTemplate(template.template, {
+		instructions: await readProjectInstructions(),
+		workspace: describeWorkspaceLayout(),
+		context,
+		request,
+		outputFormat,
+	});
+}
@@ -0,0 +1,179 @@
+import { DiffScope, ProposedDiff } from './changeset';
+import { TruncationStrategy } from './context';
+import { Mention, MentionSuggestion, MentionType } from './mentions';
+import { SlashCommand } from './prompts';
+import { ToolCall } from './providers/types';
+import { TranscriptEntry } from './sessions';
+import { StepResult } from './verify';
+
+/**
+ * The version of the messages below. The webview sends it with every message, and messages from another version are
+ * rejected rather than half understood. Raise it, and `PROTOCOL_VERSION` in `src/webview/main.js`, whenever a
+ * message changes shape.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Identifies one request and the answer bubble it streams into. The webview picks it for requests it sends; the
+ * extension picks it for the ones it starts itself, such as fixes, and announces it with `startRequest`.
+ */
+export type RequestId = string;
+
+/** Messages the webview sends to the extension. */
+export type WebviewMessage =
+	| { command: 'ready' }
+	| { command: 'saveSession', transcript: TranscriptEntry[], contextFiles: string[], mentions: Mention[] }
+	| { command: 'getSlashCommands', query: string }
+	| { command: 'getMentionSuggestions', query: string }
+	| { command: 'estimateContext', activeFile: string, contextFiles: string[] }
+	| { command: 'newChat' }
+	| { command: 'sendMessage', requestId: RequestId, text: string, activeFile: string, contextFiles: string[], mentions: Mention[], agent: boolean }
+	| { command: 'stopGeneration' }
+	| { command: 'applyDiff', filePath: string, diff: string, prompt?: string, scope?: DiffScope }
+	| { command: 'applyAllDiffs', diffs: ProposedDiff[], prompt?: string, scope?: DiffScope }
+	| { command: 'setApiKey' }
+	| { command: 'exportPatch', diffs: ProposedDiff[], prompt?: string }
+	| { command: 'repairDiff', filePath: string }
+	| { command: 'fixVerification' };
+
+/** A hunk of an apply report, formatted for the panel. */
+export interface ReportedFailure {
+	number: number;
+	reason: string;
+	hunk: string;
+}
+
+/** Messages the extension sends to the webview. Those about a request carry its `requestId`. */
+export type ExtensionMessage =
+	| { command: 'loadSession', sessionId: string, transcript: TranscriptEntry[], contextFiles: string[], mentions: Mention[] }
+	| { command: 'sessionStarted', sessionId: string }
+	| { command: 'updateActiveFile', filePath: string }
+	| { command: 'relatedFiles', activeFile: string, files: string[] }
+	| { command: 'apiKeyStatus', configured: boolean }
+	| { command: 'slashCommands', query: string, commands: SlashCommand[] }
+	| { command: 'mentionSuggestions', query: string, suggestions: MentionSuggestion[] }
+	| { command: 'contextEstimate', budget: number, strategy: TruncationStrategy, files: { filePath: string, tokens: number }[] }
+	| { command: 'startRequest', requestId: RequestId, text: string, scope?: DiffScope }
+	| { command: 'streamThought', requestId: RequestId, text: string }
+	| { command: 'streamResponse', requestId: RequestId, text: string }
+	| { command: 'toolCall', requestId: RequestId, call: ToolCall }
+	| { command: 'toolResult', requestId: RequestId, id: string, result: string }
+	| { command: 'generationComplete', requestId: RequestId, cancelled?: boolean }
+	| { command: 'applyReport', filePath: string, totalHunks: number, failures: ReportedFailure[] }
+	| { command: 'verificationReport', results: StepResult[] };
+
+export type WebviewCommand = WebviewMessage['command'];
+
+export type WebviewMessageOf<C extends WebviewCommand> = Extract<WebviewMessage, { command: C }>;
+
+/** A handler for each message the webview can send. */
+export type WebviewMessageHandlers = { [C in WebviewCommand]: (message: WebviewMessageOf<C>) => void | Promise<void> };
+
+export class ProtocolError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ProtocolError';
+	}
+}
+
+type Check = (value: unknown) => boolean;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const string: Check = value => typeof value === 'string';
+const boolean: Check = value => typeof value === 'boolean';
+const integer: Check = value => Number.isInteger(value);
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const oneOf = (...values: string[]): Check => value => typeof value === 'string' && values.includes(value);
+const object = (fields: Record<string, Check>): Check => value => isRecord(value) && Object.entries(fields).every(([name, check]) => check(value[name]));
+
+const MENTION_TYPES: Record<MentionType, true> = { file: true, folder: true, symbol: true, git: true, problems: true, selection: true };
+
+const diffScope = object({ filePath: string, lines: object({ start: integer, end: integer }) });
+const proposedDiff = object({ filePath: string, diff: string, scope: optional(diffScope) });
+const mention = object({
+	type: oneOf(...Object.keys(MENTION_TYPES)),
+	value: string,
+	location: optional(object({ filePath: string, startLine: integer, endLine: integer })),
+});
+
+// Each kind of entry the webview records, with the fields it reads back when the session is replayed
+const TRANSCRIPT_ENTRIES: Record<string, Check> = {
+	user: object({ text: string }),
+	model: object({
+		prompt: string,
+		scope: optional(diffScope),
+		thoughts: string,
+		toolCalls: arrayOf(object({ call: object({ id: string, name: string, args: isRecord }), result: optional(string) })),
+		answer: string,
+		cancelled: boolean,
+	}),
+	verificationReport: object({ results: arrayOf(object({ label: string, ok: boolean, output: string })) }),
+	applyReport: object({
+		report: object({ filePath: string, totalHunks: integer, failures: arrayOf(object({ number: integer, reason: string, hunk: string })) }),
+	}),
+};
+const transcriptEntry: Check = value => isRecord(value) && typeof value.type === 'string'
+	&& Object.prototype.hasOwnProperty.call(TRANSCRIPT_ENTRIES, value.type) && TRANSCRIPT_ENTRIES[value.type](value);
+
+// The fields of each message, checked one by one so an error can name the field that is wrong
+const SCHEMAS: { [C in WebviewCommand]: Record<Exclude<keyof WebviewMessageOf<C>, 'command'>, Check> } = {
+	ready: {},
+	saveSession: { transcript: arrayOf(transcriptEntry), contextFiles: arrayOf(string), mentions: arrayOf(mention) },
+	getSlashCommands: { query: string },
+	getMentionSuggestions: { query: string },
+	estimateContext: { activeFile: string, contextFiles: arrayOf(string) },
+	newChat: {},
+	sendMessage: { requestId: string, text: string, activeFile: string, contextFiles: arrayOf(string), mentions: arrayOf(mention), agent: boolean },
+	stopGeneration: {},
+	applyDiff: { filePath: string, diff: string, prompt: optional(string), scope: optional(diffScope) },
+	applyAllDiffs: { diffs: arrayOf(proposedDiff), prompt: optional(string), scope: optional(diffScope) },
+	setApiKey: {},
+	exportPatch: { diffs: arrayOf(proposedDiff), prompt: optional(string) },
+	repairDiff: { filePath: string },
+	fixVerification: {},
+};
+
+/**
+ * Checks that `value` is a message of this protocol version with every field of the right type, and returns it with
+ * only those fields. Throws a `ProtocolError` naming what is wrong otherwise.
+ */
+export function parseWebviewMessage(value: unknown): WebviewMessage {
+	if (!isRecord(value)) { throw new ProtocolError('A message from the webview is not an object.'); }
+	const { command, version } = value;
+	if (typeof command !== 'string' || !Object.prototype.hasOwnProperty.call(SCHEMAS, command)) {
+		throw new ProtocolError(`Unknown webview message: ${String(command)}.`);
+	}
+	if (version !== PROTOCOL_VERSION) {
+		throw new ProtocolError(`The ${command} message is for protocol version ${String(version)}, but the extension speaks version ${PROTOCOL_VERSION}. Reopen the chat panel.`);
+	}
+
+	const message: Record<string, unknown> = { command };
+	for (const [name, check] of Object.entries<Check>(SCHEMAS[command as WebviewCommand])) {
+		if (!check(value[name])) { throw new ProtocolError(`The ${command} message has an invalid ${name}.`); }
+		if (value[name] !== undefined) { message[name] = value[name]; }
+	}
+	return message as WebviewMessage;
+}
+
+/**
+ * Returns a function that validates a raw message from the webview and passes it to its handler. It rejects with a
+ * `ProtocolError` for a message that isn't valid. An error thrown by a handler goes to `onError` along with the
+ * message, or is passed on if there is no `onError`. The handlers don't need a webview, so a panel can be driven by
+ * calling the function directly.
+ */
+export function createMessageHandler(handlers: WebviewMessageHandlers, onError?: (error: unknown, message: WebviewMessage) => void): (value: unknown) => Promise<void> {
+	return async value => {
+		const message = parseWebviewMessage(value);
+		const handler = handlers[message.command] as (message: WebviewMessage) => void | Promise<void>;
+		try {
+			await handler(message);
+		} catch (e) {
+			if (!onError) { throw e; }
+			onError(e, message);
+		}
+	};
+}
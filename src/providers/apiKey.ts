@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { ApiKeys } from './index';
+
+/** The providers that take an API key. */
+export type KeyedProvider = keyof ApiKeys;
+
+// Each provider's key is a separate secret, so a key is never sent to another provider's server
+const SECRET_KEYS: Record<KeyedProvider, string> = {
+	gemini: 'gemini-diff-generator.apiKey',
+	openaiCompatible: 'gemini-diff-generator.openaiCompatibleApiKey',
+};
+const SECTION = 'gemini-diff-generator';
+// Earlier versions read the Gemini key from this setting, which ends up in synced and committed settings files
+const LEGACY_SETTING = 'apiKey';
+
+/**
+ * The API keys, kept in VS Code's secret storage rather than in the settings. Providers are created with the keys
+ * loaded last; a key found in the old `apiKey` setting is moved into secret storage as the Gemini key and removed
+ * from the settings.
+ */
+export class ApiKeyStore implements vscode.Disposable {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	/** Fires whenever a key is set or cleared, in this window or another. */
+	readonly onDidChange = this.changeEmitter.event;
+	private readonly disposables: vscode.Disposable[];
+	private loaded: ApiKeys = { gemini: '', openaiCompatible: '' };
+	// Loads run one at a time, since removing the old setting triggers another
+	private loading: Promise<void> = Promise.resolve();
+
+	constructor(private readonly secrets: vscode.SecretStorage) {
+		this.disposables = [
+			this.changeEmitter,
+			secrets.onDidChange(event => {
+				if (Object.values(SECRET_KEYS).includes(event.key)) { this.load(); }
+			}),
+			// Someone used to the old setting may paste a key into it again
+			vscode.workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration(`${SECTION}.${LEGACY_SETTING}`)) { this.load(); }
+			}),
+		];
+	}
+
+	hasKey(provider: KeyedProvider): boolean {
+		return this.loaded[provider] !== '';
+	}
+
+	/** The keys to create providers with, as last loaded. */
+	get keys(): ApiKeys {
+		return { ...this.loaded };
+	}
+
+	/** Reads the stored keys, after moving any key left in the settings. */
+	load(): Promise<void> {
+		this.loading = this.loading.catch(() => undefined).then(() => this.read());
+		return this.loading;
+	}
+
+	async set(provider: KeyedProvider, key: string) {
+		await this.secrets.store(SECRET_KEYS[provider], key.trim());
+		await this.load();
+	}
+
+	async clear(provider: KeyedProvider) {
+		await this.secrets.delete(SECRET_KEYS[provider]);
+		await this.load();
+	}
+
+	dispose() {
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private async read() {
+		try {
+			await this.migrateSetting();
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			vscode.window.showErrorMessage(`Could not move the API key out of the settings: ${errorMessage}`);
+		}
+		this.loaded = {
+			gemini: await this.secrets.get(SECRET_KEYS.gemini) ?? '',
+			openaiCompatible: await this.secrets.get(SECRET_KEYS.openaiCompatible) ?? '',
+		};
+		this.changeEmitter.fire();
+	}
+
+	/**
+	 * Moves a key from the `apiKey` setting into secret storage, unless a Gemini key is stored already, and removes it
+	 * from every settings file it is in.
+	 */
+	private async migrateSetting() {
+		const targets: { config: vscode.WorkspaceConfiguration, target: vscode.ConfigurationTarget, value: string }[] = [];
+		const collect = (config: vscode.WorkspaceConfiguration, target: vscode.ConfigurationTarget, value: unknown) => {
+			if (typeof value === 'string' && value) { targets.push({ config, target, value }); }
+		};
+		const config = vscode.workspace.getConfiguration(SECTION);
+		const inspected = config.inspect<string>(LEGACY_SETTING);
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const folderConfig = vscode.workspace.getConfiguration(SECTION, folder.uri);
+			collect(folderConfig, vscode.ConfigurationTarget.WorkspaceFolder, folderConfig.inspect<string>(LEGACY_SETTING)?.workspaceFolderValue);
+		}
+		collect(config, vscode.ConfigurationTarget.Workspace, inspected?.workspaceValue);
+		collect(config, vscode.ConfigurationTarget.Global, inspected?.globalValue);
+		if (targets.length === 0) { return; }
+
+		// The most specific setting is the one that was in effect
+		const moved = !await this.secrets.get(SECRET_KEYS.gemini);
+		if (moved) { await this.secrets.store(SECRET_KEYS.gemini, targets[0].value.trim()); }
+		for (const { config: targetConfig, target } of targets) {
+			await targetConfig.update(LEGACY_SETTING, undefined, target);
+		}
+		vscode.window.showInformationMessage(moved
+			? 'Your Gemini API key was moved from the settings to secure storage, and removed from the settings.'
+			: 'The Gemini API key in the settings was removed, since a key is already in secure storage. Use "Gemini: Set API Key" to change it.');
+	}
+}
@@ -0,0 +1,38 @@
+import { GenerateRequest, ModelProvider, StreamChunk } from './types';
+
+/**
+ * A deterministic provider for tests and offline development. It replays `script` if one is given,
+ * otherwise it echoes the latest request. Every request it receives is kept in `requests`.
+ */
+export class FakeProvider implements ModelProvider {
+	readonly displayName = 'Fake';
+	readonly requests: GenerateRequest[] = [];
+
+	constructor(private readonly script?: StreamChunk[]) { }
+
+	async *generateStream(request: GenerateRequest): AsyncIterable<StreamChunk> {
+		this.requests.push(request);
+		const chunks = this.script ?? [
+			{ type: 'thought', text: `Received ${request.turns.length} turn(s).` },
+			{ type: 'text', text: `Echo: ${request.turns[request.turns.length - 1]?.text ?? ''}` },
+		];
+
+		for (const chunk of chunks) {
+			if (request.signal.aborted) { return; }
+			yield chunk;
+		}
+	}
+
+	/** Embeds texts as normalized letter counts, which is enough to make similar texts score as similar. */
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map(text => {
+			const counts = new Array<number>(26).fill(0);
+			for (const char of text.toLowerCase()) {
+				const code = char.charCodeAt(0) - 97;
+				if (code >= 0 && code < 26) { counts[code]++; }
+			}
+			const norm = Math.sqrt(counts.reduce((sum, count) => sum + count * count, 0)) || 1;
+			return counts.map(count => count / norm);
+		});
+	}
+}
@@ -0,0 +1,68 @@
+import { Content, GoogleGenAI, Part } from "@google/genai";
+import { randomUUID } from 'crypto';
+import { AgentTurn, GenerateRequest, ModelProvider, ProviderError, ProviderSettings, StreamChunk } from './types';
+
+function toContents(turns: AgentTurn[]): Content[] {
+	return turns.map(turn => {
+		const parts: Part[] = turn.text ? [{ text: turn.text }] : [];
+		for (const call of turn.toolCalls ?? []) {
+			parts.push({ functionCall: { id: call.id, name: call.name, args: call.args } });
+		}
+		for (const result of turn.toolResults ?? []) {
+			parts.push({ functionResponse: { id: result.id, name: result.name, response: { output: result.result } } });
+		}
+		return { role: turn.role, parts };
+	});
+}
+
+export class GeminiProvider implements ModelProvider {
+	readonly displayName = 'Gemini';
+	private readonly client: GoogleGenAI;
+
+	constructor(private readonly settings: ProviderSettings, apiKey: string) {
+		this.client = new GoogleGenAI({ apiKey });
+	}
+
+	async *generateStream(request: GenerateRequest): AsyncIterable<StreamChunk> {
+		try {
+			const result = await this.client.models.generateContentStream({
+				model: this.settings.model,
+				contents: toContents(request.turns),
+				config: {
+					abortSignal: request.signal,
+					thinkingConfig: { includeThoughts: true, thinkingBudget: this.settings.thinkingBudget },
+					tools: request.tools ? [{
+						functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })),
+					}] : undefined,
+				},
+			});
+
+			for await (const chunk of result) {
+				if (request.signal.aborted) { return; }
+				for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+					if (part.functionCall?.name) {
+						const { id, name, args } = part.functionCall;
+						yield { type: 'toolCall', call: { id: id ?? randomUUID(), name, args: args ?? {} } };
+						continue;
+					}
+					if (!part.text) { continue; }
+					yield { type: part.thought ? 'thought' : 'text', text: part.text };
+				}
+			}
+		} catch (error) {
+			if (request.signal.aborted) { return; }
+			const message = error instanceof Error ? error.message : String(error);
+			throw new ProviderError(`Error communicating with Gemini API: ${message}`);
+		}
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		try {
+			const response = await this.client.models.embedContent({ model: this.settings.embeddingModel, contents: texts });
+			return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new ProviderError(`Error computing embeddings with Gemini API: ${message}`);
+		}
+	}
+}
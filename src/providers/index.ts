@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import { FakeProvider } from './fake';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { MissingApiKeyError, ModelProvider, ProviderError, ProviderKind, ProviderSettings } from './types';
+
+export * from './types';
+export { FakeProvider } from './fake';
+
+/** The keys from secret storage. Each provider is only given its own. */
+export interface ApiKeys {
+	gemini: string;
+	/** Optional; sent as a bearer token to servers that want one. */
+	openaiCompatible: string;
+}
+
+export function readProviderSettings(): ProviderSettings {
+	const config = vscode.workspace.getConfiguration('gemini-diff-generator');
+	return {
+		provider: config.get<ProviderKind>('provider', 'gemini'),
+		model: config.get<string>('model', 'gemini-2.5-pro'),
+		baseUrl: config.get<string>('baseUrl', 'http://localhost:11434/v1'),
+		thinkingBudget: config.get<number>('thinkingBudget', 8192),
+		embeddingModel: config.get<string>('embeddingModel', 'text-embedding-004'),
+	};
+}
+
+/**
+ * Creates the provider selected in the settings. Throws a `ProviderError` when it is not usable as configured.
+ */
+export function createProvider(apiKeys: ApiKeys, settings: ProviderSettings = readProviderSettings()): ModelProvider {
+	switch (settings.provider) {
+		case 'gemini':
+			if (!apiKeys.gemini) {
+				throw new MissingApiKeyError();
+			}
+			return new GeminiProvider(settings, apiKeys.gemini);
+		case 'openaiCompatible':
+			if (!settings.baseUrl) {
+				throw new ProviderError('No base URL configured for the OpenAI-compatible provider. Please set it in the settings.');
+			}
+			return new OpenAICompatibleProvider(settings, apiKeys.openaiCompatible);
+		case 'fake':
+			return new FakeProvider();
+		default:
+			throw new ProviderError(`Unknown model provider: ${settings.provider}`);
+	}
+}
@@ -0,0 +1,152 @@
+import { AgentTurn, GenerateRequest, ModelProvider, ProviderError, ProviderSettings, StreamChunk, ToolCall } from './types';
+
+interface EmbeddingsResponse {
+	data?: { index: number, embedding: number[] }[];
+}
+
+interface ChatCompletionChunk {
+	choices?: {
+		delta?: {
+			content?: string | null;
+			// Servers disagree on where reasoning goes: llama.cpp uses `reasoning_content`, Ollama uses `reasoning`
+			reasoning_content?: string | null;
+			reasoning?: string | null;
+			// Tool calls arrive in pieces: the id and name first, then the JSON arguments a fragment at a time
+			tool_calls?: {
+				index: number;
+				id?: string;
+				function?: { name?: string, arguments?: string };
+			}[];
+		};
+	}[];
+}
+
+type ChatMessage =
+	| { role: 'user' | 'assistant', content: string, tool_calls?: { id: string, type: 'function', function: { name: string, arguments: string } }[] }
+	| { role: 'tool', tool_call_id: string, content: string };
+
+function toMessages(turns: AgentTurn[]): ChatMessage[] {
+	return turns.flatMap((turn): ChatMessage[] => {
+		if (turn.toolResults) {
+			return turn.toolResults.map(result => ({ role: 'tool', tool_call_id: result.id, content: result.result }));
+		}
+		const message: ChatMessage = { role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text };
+		if (turn.toolCalls?.length) {
+			message.tool_calls = turn.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } }));
+		}
+		return [message];
+	});
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as a local Ollama or llama.cpp server.
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+	readonly displayName: string;
+
+	constructor(private readonly settings: ProviderSettings, private readonly apiKey: string) {
+		this.displayName = settings.model;
+	}
+
+	private headers(): Record<string, string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.apiKey) {
+			headers['Authorization'] = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	async *generateStream(request: GenerateRequest): AsyncIterable<StreamChunk> {
+		const url = `${this.settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+		const headers = this.headers();
+
+		try {
+			const response = await fetch(url, {
+				method: 'POST',
+				headers,
+				signal: request.signal,
+				body: JSON.stringify({
+					model: this.settings.model,
+					stream: true,
+					messages: toMessages(request.turns),
+					tools: request.tools?.map(tool => ({ type: 'function', function: tool })),
+				}),
+			});
+
+			if (!response.ok || !response.body) {
+				const detail = await response.text().catch(() => '');
+				throw new ProviderError(`${url} responded with ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`, response.status);
+			}
+
+			// The body is a stream of server-sent events, one `data:` line per chunk
+			const decoder = new TextDecoder();
+			let buffer = '';
+			const toolCalls: { id?: string, name: string, args: string }[] = [];
+			const finishToolCalls = function* (): Iterable<StreamChunk> {
+				for (const [index, call] of toolCalls.entries()) {
+					const parsed: ToolCall = { id: call.id ?? `call_${index}`, name: call.name, args: {} };
+					try {
+						parsed.args = call.args ? JSON.parse(call.args) : {};
+					} catch {
+						throw new ProviderError(`The model called ${call.name} with arguments that are not valid JSON: ${call.args}`);
+					}
+					yield { type: 'toolCall', call: parsed };
+				}
+			};
+			for await (const bytes of response.body) {
+				buffer += decoder.decode(bytes, { stream: true });
+				const lines = buffer.split('\n');
+				buffer = lines.pop() ?? '';
+				for (const line of lines) {
+					const data = line.trim();
+					if (!data.startsWith('data:')) { continue; }
+					const payload = data.substring('data:'.length).trim();
+					if (payload === '[DONE]') {
+						yield* finishToolCalls();
+						return;
+					}
+
+					const chunk = JSON.parse(payload) as ChatCompletionChunk;
+					const delta = chunk.choices?.[0]?.delta;
+					const thought = delta?.reasoning_content ?? delta?.reasoning;
+					if (thought) { yield { type: 'thought', text: thought }; }
+					if (delta?.content) { yield { type: 'text', text: delta.content }; }
+					for (const piece of delta?.tool_calls ?? []) {
+						const call = toolCalls[piece.index] ??= { name: '', args: '' };
+						call.id ??= piece.id;
+						call.name += piece.function?.name ?? '';
+						call.args += piece.function?.arguments ?? '';
+					}
+				}
+			}
+			yield* finishToolCalls();
+		} catch (error) {
+			if (request.signal.aborted) { return; }
+			if (error instanceof ProviderError) { throw error; }
+			const message = error instanceof Error ? error.message : String(error);
+			throw new ProviderError(`Error communicating with ${url}: ${message}`);
+		}
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const url = `${this.settings.baseUrl.replace(/\/+$/, '')}/embeddings`;
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				method: 'POST',
+				headers: this.headers(),
+				body: JSON.stringify({ model: this.settings.embeddingModel, input: texts }),
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new ProviderError(`Error communicating with ${url}: ${message}`);
+		}
+		if (!response.ok) {
+			const detail = await response.text().catch(() => '');
+			throw new ProviderError(`${url} responded with ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`, response.status);
+		}
+
+		const body = await response.json() as EmbeddingsResponse;
+		return [...body.data ?? []].sort((a, b) => a.index - b.index).map(item => item.embedding);
+	}
+}
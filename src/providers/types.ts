@@ -0,0 +1,76 @@
+import { ConversationTurn } from '../conversation';
+
+export type ProviderKind = 'gemini' | 'openaiCompatible' | 'fake';
+
+export interface ProviderSettings {
+	provider: ProviderKind;
+	model: string;
+	baseUrl: string;
+	thinkingBudget: number;
+	/** Model used for embeddings, for providers that support them. */
+	embeddingModel: string;
+}
+
+/** A function the model may call. `parameters` is a JSON schema for an object of arguments. */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+	/** Matches the call to its result. Generated locally when the backend doesn't supply one. */
+	id: string;
+	name: string;
+	args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+	id: string;
+	name: string;
+	result: string;
+}
+
+/** A conversation turn that can also carry the model's tool calls, or the results sent back for them. */
+export interface AgentTurn extends ConversationTurn {
+	toolCalls?: ToolCall[];
+	toolResults?: ToolResult[];
+}
+
+export interface GenerateRequest {
+	turns: AgentTurn[];
+	/** Aborting the signal ends the stream early without raising an error. */
+	signal: AbortSignal;
+	/** Functions the model may call instead of, or before, answering. */
+	tools?: ToolDefinition[];
+}
+
+export type StreamChunk =
+	| { type: 'text' | 'thought', text: string }
+	| { type: 'toolCall', call: ToolCall };
+
+/**
+ * A backend that can answer a conversation. Implementations stream the answer and any reasoning
+ * the model exposes, and report failures as `ProviderError`s.
+ */
+export interface ModelProvider {
+	readonly displayName: string;
+	generateStream(request: GenerateRequest): AsyncIterable<StreamChunk>;
+	/** Returns one embedding vector per text, in order. Optional; not every backend can embed. */
+	embed?(texts: string[]): Promise<number[][]>;
+}
+
+export class ProviderError extends Error {
+	constructor(message: string, readonly status?: number) {
+		super(message);
+		this.name = 'ProviderError';
+	}
+}
+
+/** Thrown when the selected provider needs an API key and none is stored. */
+export class MissingApiKeyError extends ProviderError {
+	constructor() {
+		super('Gemini API key not configured. Run "Gemini: Set API Key" to add it.');
+		this.name = 'MissingApiKeyError';
+	}
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { toWorkspacePath } from './workspacePaths';
+
+// At most this many files are added automatically
+const MAX_RELATED_FILES = 8;
+// How many distinct identifiers are looked up with the definition provider
+const MAX_DEFINITION_LOOKUPS = 40;
+// How many of the file's top-level symbols are looked up with the reference provider
+const MAX_REFERENCE_LOOKUPS = 5;
+
+const EXCLUDED_PATH = /(^|\/)(node_modules|\.git)\//;
+const IMPORT_PATTERN = /(?:import\s[^'"]*?from\s*|import\s*\(?\s*|require\s*\(\s*|export\s[^'"]*?from\s*)(['"])([^'"\n]+)\1/g;
+const IDENTIFIER_PATTERN = /\b[A-Za-z_$][\w$]{2,}\b/g;
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+export function isAutoContextEnabled(): boolean {
+	return vscode.workspace.getConfiguration('gemini-diff-generator').get<boolean>('autoContext', false);
+}
+
+type Location = vscode.Location | vscode.LocationLink;
+
+function locationUri(location: Location): vscode.Uri {
+	return 'targetUri' in location ? location.targetUri : location.uri;
+}
+
+/** Returns the file's workspace path, or undefined for files outside the workspace or in excluded folders. */
+function workspacePath(uri: vscode.Uri): string | undefined {
+	if (uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(uri)) { return undefined; }
+	const relativePath = vscode.workspace.asRelativePath(uri, false);
+	return EXCLUDED_PATH.test(`${relativePath}/`) ? undefined : toWorkspacePath(uri);
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		return (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.File;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Finds the files a document imports. The definition provider is asked about each module specifier first, since it
+ * knows about path aliases; relative specifiers it can't resolve are tried with the usual script extensions.
+ */
+async function importedFiles(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+	const text = document.getText();
+	const found: vscode.Uri[] = [];
+	for (const match of text.matchAll(IMPORT_PATTERN)) {
+		const specifier = match[2];
+		const position = document.positionAt(match.index! + match[0].length - specifier.length - 1);
+		const definitions = await vscode.commands.executeCommand<Location[]>('vscode.executeDefinitionProvider', document.uri, position) ?? [];
+		const resolved = definitions.map(locationUri).find(uri => uri.toString() !== document.uri.toString());
+		if (resolved) {
+			found.push(resolved);
+			continue;
+		}
+		if (!specifier.startsWith('.')) { continue; }
+
+		const base = vscode.Uri.joinPath(document.uri, '..', specifier);
+		const candidates = [base, ...SCRIPT_EXTENSIONS.map(ext => base.with({ path: base.path + ext })), ...SCRIPT_EXTENSIONS.map(ext => vscode.Uri.joinPath(base, `index${ext}`))];
+		for (const candidate of candidates) {
+			if (await exists(candidate)) {
+				found.push(candidate);
+				break;
+			}
+		}
+	}
+	return found;
+}
+
+/** Finds where the identifiers used in a document are defined, most used first. */
+async function definitionFiles(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+	const firstUse = new Map<string, { offset: number, count: number }>();
+	for (const match of document.getText().matchAll(IDENTIFIER_PATTERN)) {
+		const use = firstUse.get(match[0]);
+		if (use) {
+			use.count++;
+		} else {
+			firstUse.set(match[0], { offset: match.index!, count: 1 });
+		}
+	}
+
+	const lookups = [...firstUse.values()].sort((a, b) => b.count - a.count).slice(0, MAX_DEFINITION_LOOKUPS);
+	const counts = new Map<string, { uri: vscode.Uri, count: number }>();
+	for (const { offset, count } of lookups) {
+		const definitions = await vscode.commands.executeCommand<Location[]>('vscode.executeDefinitionProvider', document.uri, document.positionAt(offset)) ?? [];
+		for (const uri of definitions.map(locationUri)) {
+			if (uri.toString() === document.uri.toString()) { continue; }
+			const entry = counts.get(uri.toString()) ?? { uri, count: 0 };
+			entry.count += count;
+			counts.set(uri.toString(), entry);
+		}
+	}
+	return [...counts.values()].sort((a, b) => b.count - a.count).map(entry => entry.uri);
+}
+
+/** Finds files that use the document's top-level symbols. */
+async function referencingFiles(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+	const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>('vscode.executeDocumentSymbolProvider', document.uri) ?? [];
+	const found: vscode.Uri[] = [];
+	for (const symbol of symbols.slice(0, MAX_REFERENCE_LOOKUPS)) {
+		const position = 'selectionRange' in symbol ? symbol.selectionRange.start : symbol.location.range.start;
+		const references = await vscode.commands.executeCommand<vscode.Location[]>('vscode.executeReferenceProvider', document.uri, position) ?? [];
+		found.push(...references.map(reference => reference.uri).filter(uri => uri.toString() !== document.uri.toString()));
+	}
+	return found;
+}
+
+/**
+ * Finds the test file for a source file, such as `foo.test.ts` or `test_foo.py` for `foo`, or the source file
+ * for a test.
+ */
+async function matchingTestFile(document: vscode.TextDocument): Promise<vscode.Uri | undefined> {
+	const ext = path.extname(document.uri.path);
+	const name = path.basename(document.uri.path, ext);
+	const testMatch = name.match(/^(?:test_)?(.+?)(?:[._-](?:test|spec))?$/);
+	const isTest = testMatch !== null && testMatch[1] !== name;
+	const pattern = isTest
+		? `**/${testMatch![1]}${ext}`
+		: `**/{${name}.test,${name}.spec,${name}_test,test_${name}}${ext}`;
+	const files = await vscode.workspace.findFiles(pattern, '**/{node_modules,.git}/**', 5);
+	return files.find(uri => uri.toString() !== document.uri.toString());
+}
+
+/**
+ * Finds files related to a document: the files it imports, where the symbols it uses are defined, its test file and
+ * the files that use it. Returns workspace paths, the most closely related first.
+ */
+export async function findRelatedFiles(document: vscode.TextDocument): Promise<string[]> {
+	const testFile = await matchingTestFile(document);
+	const groups = [
+		await importedFiles(document),
+		testFile ? [testFile] : [],
+		await definitionFiles(document),
+		await referencingFiles(document),
+	];
+
+	const ownPath = workspacePath(document.uri);
+	const related = new Set<string>();
+	for (const uri of groups.flat()) {
+		const relativePath = workspacePath(uri);
+		if (relativePath && relativePath !== ownPath) { related.add(relativePath); }
+		if (related.size >= MAX_RELATED_FILES) { break; }
+	}
+	return [...related];
+}
@@ -0,0 +1,75 @@
+import { HunkFailureReason, HunkResult } from './diff/apply';
+import { formatHunk } from './diff/format';
+import { Hunk } from './diff/parse';
+import { FixRequest } from './prompts';
+
+export interface FailedHunk {
+	/** 1-based position of the hunk in its diff. */
+	number: number;
+	reason: HunkFailureReason;
+	hunk: Hunk;
+}
+
+/** The hunks of one file's diff that could not be applied. */
+export interface FailureReport {
+	filePath: string;
+	totalHunks: number;
+	failed: FailedHunk[];
+}
+
+export function describeFailure(reason: HunkFailureReason): string {
+	switch (reason) {
+		case 'noContextMatch': return 'its context and removed lines were not found in the file';
+		case 'ambiguous': return 'it matches several places in the file equally well';
+		case 'overlap': return 'it overlaps a change made by an earlier hunk';
+		case 'outOfScope': return 'it changes lines outside the range the request was limited to';
+	}
+}
+
+/**
+ * Builds the report for a file, or returns undefined when every hunk was applied.
+ */
+export function createFailureReport(filePath: string, results: HunkResult[]): FailureReport | undefined {
+	const failed = results.flatMap((result, index) => result.failure ? [{ number: index + 1, reason: result.failure, hunk: result.hunk }] : []);
+	return failed.length > 0 ? { filePath, totalHunks: results.length, failed } : undefined;
+}
+
+/**
+ * Asks the model for a diff that makes the failed changes against the file as it is now.
+ */
+export function buildRepairRequest(report: FailureReport, currentContent: string): FixRequest {
+	const failures = report.failed.map(failure =>
+		`Hunk ${failure.number} (${describeFailure(failure.reason)}):\n\`\`\`diff\n${formatHunk(failure.hunk)}\n\`\`\``
+	).join('\n\n');
+
+	return {
+		context: `The diff you proposed for ${report.filePath} could not be applied completely. ${report.failed.length} of ${report.totalHunks} hunks failed:
+
+${failures}
+
+This is the current content of ${report.filePath}, which already includes any hunks that did apply:
+--- File: ${report.filePath} ---
+${currentContent}
+--- End File: ${report.filePath} ---
+
+`,
+		request: `Generate a corrected diff for ${report.filePath} that makes only the changes from the failed hunks, against the content above.
+
+`,
+		outputFormat: `Put it in a single Markdown code block with the language identifier 'diff', using the headers '--- a/${report.filePath}' and '+++ b/${report.filePath}'.
+Copy every context and removed line exactly from the content above, including indentation, and use correct @@ line numbers.`,
+	};
+}
+
+/**
+ * Returns the contents of the ```diff code blocks in a Markdown answer.
+ */
+export function extractDiffBlocks(answer: string): string[] {
+	const blocks: string[] = [];
+	const pattern = /```diff[^\n]*\n([\s\S]*?)```/g;
+	let match;
+	while ((match = pattern.exec(answer)) !== null) {
+		blocks.push(match[1]);
+	}
+	return blocks;
+}
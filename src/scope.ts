@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { DiffScope } from './changeset';
+import { formatRequest } from './prompts';
+import { toWorkspacePath } from './workspacePaths';
+
+/** A part of a file that a request is limited to, with a few lines around it for the model to orient itself. */
+export interface EditScope {
+	filePath: string;
+	/** What the range is, e.g. "the selection" or "method `save`". */
+	label: string;
+	range: vscode.Range;
+	text: string;
+	/** The lines around the range that are sent along with it, and where they start. */
+	surrounding: { range: vscode.Range, text: string };
+}
+
+// Lines sent above and below the scoped range
+const SURROUNDING_LINES = 10;
+
+// Symbols that make a sensible unit to edit on their own
+const EDITABLE_SYMBOL_KINDS = new Set([
+	vscode.SymbolKind.Function,
+	vscode.SymbolKind.Method,
+	vscode.SymbolKind.Constructor,
+	vscode.SymbolKind.Class,
+	vscode.SymbolKind.Interface,
+	vscode.SymbolKind.Enum,
+	vscode.SymbolKind.Struct,
+]);
+
+/** Returns the innermost editable symbol containing `position`, or undefined if there is none. */
+async function findEnclosingSymbol(document: vscode.TextDocument, position: vscode.Position): Promise<{ name: string, kind: vscode.SymbolKind, range: vscode.Range } | undefined> {
+	const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+		'vscode.executeDocumentSymbolProvider', document.uri
+	);
+
+	let found: { name: string, kind: vscode.SymbolKind, range: vscode.Range } | undefined;
+	const visit = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+		const range = 'range' in symbol ? symbol.range : symbol.location.range;
+		if (!range.contains(position)) { return; }
+		// Children come after their parent, so the innermost match wins
+		if (EDITABLE_SYMBOL_KINDS.has(symbol.kind) && (!found || found.range.contains(range))) {
+			found = { name: symbol.name, kind: symbol.kind, range };
+		}
+		if ('children' in symbol) { symbol.children.forEach(visit); }
+	};
+	(symbols ?? []).forEach(visit);
+	return found;
+}
+
+/**
+ * Works out what an edit request from `editor` is limited to: the selection, expanded to whole lines,
+ * or otherwise the function, class or similar symbol around the cursor.
+ */
+export async function resolveEditScope(editor: vscode.TextEditor): Promise<EditScope | undefined> {
+	const { document, selection } = editor;
+	let range: vscode.Range;
+	let label: string;
+	if (!selection.isEmpty) {
+		// A selection ending at the start of a line doesn't include that line
+		const endLine = selection.end.character === 0 && selection.end.line > selection.start.line ? selection.end.line - 1 : selection.end.line;
+		range = new vscode.Range(selection.start.line, 0, endLine, document.lineAt(endLine).text.length);
+		label = 'the selection';
+	} else {
+		const symbol = await findEnclosingSymbol(document, selection.active);
+		if (!symbol) { return undefined; }
+		range = new vscode.Range(symbol.range.start.line, 0, symbol.range.end.line, document.lineAt(symbol.range.end.line).text.length);
+		label = `${vscode.SymbolKind[symbol.kind].toLowerCase()} \`${symbol.name}\``;
+	}
+
+	const surroundingStart = Math.max(0, range.start.line - SURROUNDING_LINES);
+	const surroundingEnd = Math.min(document.lineCount - 1, range.end.line + SURROUNDING_LINES);
+	const surrounding = new vscode.Range(surroundingStart, 0, surroundingEnd, document.lineAt(surroundingEnd).text.length);
+
+	return {
+		filePath: toWorkspacePath(document.uri),
+		label,
+		range,
+		text: document.getText(range),
+		surrounding: { range: surrounding, text: document.getText(surrounding) },
+	};
+}
+
+/** The scope a diff for `scope` is checked against when it is applied. */
+export function toDiffScope(scope: EditScope): DiffScope {
+	return { filePath: scope.filePath, lines: { start: scope.range.start.line, end: scope.range.end.line + 1 } };
+}
+
+/** Describes a scope for the chat, e.g. "method `save` in src/store.ts (lines 12-30)". */
+export function describeScope(scope: EditScope): string {
+	return `${scope.label} in ${scope.filePath} (lines ${scope.range.start.line + 1}-${scope.range.end.line + 1})`;
+}
+
+/**
+ * Asks the model for a diff that only changes the scoped lines. Only those lines and the few around them are sent,
+ * rather than whole files, along with the project's `instructions`.
+ */
+export function buildScopedPrompt(scope: EditScope, instruction: string, instructions = ''): string {
+	const { filePath, range, surrounding } = scope;
+	const firstLine = range.start.line + 1;
+	const lastLine = range.end.line + 1;
+	return `You are an expert programmer. The user wants to change ${scope.label} in ${filePath}, lines ${firstLine}-${lastLine}.
+
+${instructions}This excerpt shows lines ${surrounding.range.start.line + 1}-${surrounding.range.end.line + 1} of the file:
+--- Excerpt: ${filePath} ---
+${surrounding.text}
+--- End Excerpt: ${filePath} ---
+
+These are lines ${firstLine}-${lastLine}, the only lines you may change:
+--- Lines ${firstLine}-${lastLine}: ${filePath} ---
+${scope.text}
+--- End Lines: ${filePath} ---
+
+${formatRequest(instruction)}Generate a single diff for ${filePath} in a Markdown code block with the language identifier 'diff', using the headers '--- a/${filePath}' and '+++ b/${filePath}'.
+Only add or remove lines within lines ${firstLine}-${lastLine}; context lines may come from the rest of the excerpt. Do not change any other file or any other part of this one.
+Use line numbers from the whole file in the @@ headers, and copy every context and removed line exactly, including indentation.`;
+}
@@ -0,0 +1,102 @@
+// Standard BM25 parameters: how quickly repeated terms stop adding to the score, and how much long documents are penalized
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'not', 'but', 'you', 'all', 'any', 'can', 'how', 'where', 'what', 'does', 'into']);
+
+// Crude plural folding, so "tokens" matches "token"
+function stem(term: string): string {
+	return term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+}
+
+/**
+ * Splits text into lowercase search terms. Identifiers are also split into their camelCase and snake_case words,
+ * so `validateToken` matches a search for "validate token".
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = [];
+	for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+		const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(part => part.length > 0);
+		const candidates = parts.length > 1 ? [word, ...parts] : [word];
+		for (const candidate of candidates) {
+			const term = stem(candidate.toLowerCase());
+			if (term.length > 1 && !STOP_WORDS.has(term)) { terms.push(term); }
+		}
+	}
+	return terms;
+}
+
+export interface ScoredDocument {
+	id: string;
+	score: number;
+}
+
+/**
+ * An in-memory BM25 keyword index. Documents can be added, replaced and removed one at a time.
+ */
+export class Bm25Index {
+	private readonly postings = new Map<string, Map<string, number>>();
+	private readonly lengths = new Map<string, number>();
+	private readonly documentTerms = new Map<string, string[]>();
+	private totalLength = 0;
+
+	get size(): number {
+		return this.lengths.size;
+	}
+
+	/** Adds a document, replacing any earlier one with the same id. */
+	add(id: string, text: string) {
+		this.remove(id);
+		const terms = tokenize(text);
+		const counts = new Map<string, number>();
+		terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+		for (const [term, count] of counts) {
+			let posting = this.postings.get(term);
+			if (!posting) {
+				posting = new Map();
+				this.postings.set(term, posting);
+			}
+			posting.set(id, count);
+		}
+		this.lengths.set(id, terms.length);
+		this.documentTerms.set(id, [...counts.keys()]);
+		this.totalLength += terms.length;
+	}
+
+	remove(id: string) {
+		const length = this.lengths.get(id);
+		if (length === undefined) { return; }
+		for (const term of this.documentTerms.get(id) ?? []) {
+			const posting = this.postings.get(term);
+			posting?.delete(id);
+			if (posting?.size === 0) { this.postings.delete(term); }
+		}
+		this.lengths.delete(id);
+		this.documentTerms.delete(id);
+		this.totalLength -= length;
+	}
+
+	/** Returns the best matches for `query`, highest score first. Documents matching no term are left out. */
+	search(query: string, limit: number): ScoredDocument[] {
+		const documentCount = this.lengths.size;
+		if (documentCount === 0) { return []; }
+		const averageLength = this.totalLength / documentCount;
+
+		const scores = new Map<string, number>();
+		for (const term of new Set(tokenize(query))) {
+			const posting = this.postings.get(term);
+			if (!posting) { continue; }
+			const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+			for (const [id, frequency] of posting) {
+				const length = this.lengths.get(id)!;
+				const score = idf * frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * length / averageLength));
+				scores.set(id, (scores.get(id) ?? 0) + score);
+			}
+		}
+
+		return [...scores.entries()]
+			.map(([id, score]) => ({ id, score }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+}
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createProvider } from '../providers';
+import { ApiKeyStore } from '../providers/apiKey';
+import { toWorkspacePath } from '../workspacePaths';
+import { Bm25Index } from './bm25';
+
+/** A run of lines from a workspace file, which is the unit the index searches. */
+export interface CodeChunk {
+	id: string;
+	filePath: string;
+	uri: vscode.Uri;
+	/** 0-based, inclusive. */
+	startLine: number;
+	endLine: number;
+	text: string;
+}
+
+export interface SearchResult {
+	chunk: CodeChunk;
+	score: number;
+}
+
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 15;
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 512 * 1024;
+// Files indexed between yields to the event loop while building
+const FILES_PER_BATCH = 50;
+// How many keyword matches are re-ranked with embeddings
+const RERANK_CANDIDATES = 40;
+const EMBEDDING_BATCH = 32;
+const BASE_EXCLUDES = ['**/node_modules/**', '**/.git/**'];
+
+export function isEmbeddingSearchEnabled(): boolean {
+	return vscode.workspace.getConfiguration('gemini-diff-generator').get<boolean>('searchEmbeddings', false);
+}
+
+/**
+ * Turns one line of a .gitignore into globs for `findFiles`. `directory` is where the .gitignore is, relative to the
+ * workspace folder; its patterns only apply below it. Negated patterns can't be expressed as an exclusion, and
+ * patterns with escapes, commas or braces can't be put in the `{a,b}` group the globs are combined into, so those
+ * are skipped.
+ */
+export function gitignoreToGlobs(line: string, directory = ''): string[] {
+	let pattern = line.trim();
+	if (!pattern || pattern.startsWith('#') || pattern.startsWith('!') || /[\\{},]/.test(pattern)) { return []; }
+	const directoryOnly = pattern.endsWith('/');
+	pattern = pattern.replace(/\/+$/, '');
+	// A pattern with a slash before its end is relative to the .gitignore; otherwise it matches at any depth
+	const anchored = pattern.includes('/');
+	pattern = pattern.replace(/^\/+/, '');
+	const relative = anchored || pattern.startsWith('**/') ? pattern : `**/${pattern}`;
+	const base = directory ? `${directory}/${relative}` : relative;
+	return directoryOnly ? [`${base}/**`] : [base, `${base}/**`];
+}
+
+/**
+ * Escapes a path so `findFiles` matches it literally, by putting each character that means something in a glob in a
+ * class of its own. A `]` outside a class is already literal.
+ */
+function escapeGlob(filePath: string): string {
+	return filePath.replace(/[[{}*?]/g, '[$&]');
+}
+
+// Combines the exclusions with the patterns of every .gitignore in the folder
+async function readExcludes(folder: vscode.WorkspaceFolder, token: vscode.CancellationToken): Promise<string> {
+	const globs = [...BASE_EXCLUDES];
+	const ignoreFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/.gitignore'), `{${BASE_EXCLUDES.join(',')}}`, undefined, token);
+	for (const uri of ignoreFiles) {
+		const directory = path.posix.dirname(vscode.workspace.asRelativePath(uri, false));
+		try {
+			const gitignore = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+			globs.push(...gitignore.split(/\r?\n/).flatMap(line => gitignoreToGlobs(line, directory === '.' ? '' : directory)));
+		} catch (e) {
+			console.error(`Could not read ${uri.toString()}`, e);
+		}
+	}
+	return `{${globs.join(',')}}`;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0, normA = 0, normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Formats a search result for the prompt, making clear it is only part of the file. */
+export function formatSearchResult(query: string, result: SearchResult): string {
+	const { chunk } = result;
+	const location = `${chunk.filePath} (lines ${chunk.startLine + 1}-${chunk.endLine + 1})`;
+	return `--- Search result for "${query}": ${location} ---\n${chunk.text}\n--- End Search Result: ${location} ---\n\n`;
+}
+
+/**
+ * A keyword index of the workspace's files, split into overlapping chunks. It is only built once it is first
+ * searched, so workspaces that never use it aren't read into memory. It skips what the folder's .gitignore files and
+ * the usual `node_modules`/`.git` exclusions leave out, and is kept up to date as files are saved, created, renamed
+ * and deleted. With `searchEmbeddings` on, keyword matches are re-ranked by embedding
+ * similarity using the selected provider.
+ */
+export class WorkspaceIndex implements vscode.Disposable {
+	private readonly keywords = new Bm25Index();
+	private readonly chunks = new Map<string, CodeChunk>();
+	private readonly chunksByFile = new Map<string, string[]>();
+	private readonly embeddings = new Map<string, number[]>();
+	private readonly excludes = new Map<string, string>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private building: Promise<void> | undefined;
+	// Cancelled when a rebuild replaces the build in progress
+	private buildCancellation = new vscode.CancellationTokenSource();
+	private embeddingFailed = false;
+
+	constructor(private readonly apiKeys: ApiKeyStore) {
+		this.disposables.push(
+			vscode.workspace.onDidSaveTextDocument(document => {
+				if (document.uri.path.endsWith('/.gitignore')) {
+					this.rebuild();
+				} else {
+					this.update(document.uri);
+				}
+			}),
+			vscode.workspace.onDidCreateFiles(event => event.files.forEach(uri => this.update(uri))),
+			vscode.workspace.onDidDeleteFiles(event => event.files.forEach(uri => this.removeFile(uri))),
+			vscode.workspace.onDidRenameFiles(event => event.files.forEach(({ oldUri, newUri }) => {
+				this.removeFile(oldUri);
+				this.update(newUri);
+			})),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild()),
+		);
+	}
+
+	/** Starts building the index if it hasn't been built yet. Resolves once it is ready. */
+	build(): Promise<void> {
+		this.building ??= this.indexWorkspace(this.buildCancellation.token).catch(e => console.error('Failed to index the workspace', e));
+		return this.building;
+	}
+
+	async search(query: string, limit: number): Promise<SearchResult[]> {
+		await this.build();
+		const matches = this.keywords.search(query, isEmbeddingSearchEnabled() ? RERANK_CANDIDATES : limit)
+			.map(match => ({ chunk: this.chunks.get(match.id)!, score: match.score }));
+		if (matches.length === 0 || !isEmbeddingSearchEnabled()) { return matches.slice(0, limit); }
+
+		try {
+			return (await this.rerank(query, matches)).slice(0, limit);
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			if (!this.embeddingFailed) {
+				this.embeddingFailed = true;
+				vscode.window.showWarningMessage(`Could not compute embeddings for workspace search, using keyword search only: ${errorMessage}`);
+			}
+			return matches.slice(0, limit);
+		}
+	}
+
+	dispose() {
+		this.buildCancellation.cancel();
+		this.buildCancellation.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	// Scores keyword matches by an even mix of their normalized keyword score and embedding similarity
+	private async rerank(query: string, matches: SearchResult[]): Promise<SearchResult[]> {
+		const provider = createProvider(this.apiKeys.keys);
+		if (!provider.embed) { throw new Error(`${provider.displayName} does not support embeddings.`); }
+
+		const missing = matches.filter(match => !this.embeddings.has(match.chunk.id));
+		for (let i = 0; i < missing.length; i += EMBEDDING_BATCH) {
+			const batch = missing.slice(i, i + EMBEDDING_BATCH);
+			const vectors = await provider.embed(batch.map(match => match.chunk.text));
+			batch.forEach((match, index) => this.embeddings.set(match.chunk.id, vectors[index]));
+		}
+		const [queryVector] = await provider.embed([query]);
+
+		const topScore = matches[0].score;
+		return matches
+			.map(match => ({ ...match, score: 0.5 * match.score / topScore + 0.5 * cosineSimilarity(queryVector, this.embeddings.get(match.chunk.id)!) }))
+			.sort((a, b) => b.score - a.score);
+	}
+
+	// Stops the build in progress, and once it has stopped, indexes the workspace again from scratch
+	private rebuild() {
+		// An index that was never searched is built when it first is
+		if (!this.building) { return; }
+		this.buildCancellation.cancel();
+		this.buildCancellation.dispose();
+		const cancellation = this.buildCancellation = new vscode.CancellationTokenSource();
+		const previous = this.building ?? Promise.resolve();
+		this.building = previous.then(() => {
+			for (const uri of [...this.chunksByFile.keys()]) { this.removeFile(vscode.Uri.parse(uri)); }
+			this.excludes.clear();
+			return this.indexWorkspace(cancellation.token);
+		}).catch(e => console.error('Failed to index the workspace', e));
+	}
+
+	private async indexWorkspace(token: vscode.CancellationToken) {
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			if (token.isCancellationRequested) { return; }
+			const exclude = await readExcludes(folder, token);
+			this.excludes.set(folder.uri.toString(), exclude);
+			const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/*'), exclude, MAX_FILES, token);
+			for (let i = 0; i < files.length; i++) {
+				if (token.isCancellationRequested) { return; }
+				await this.indexFile(files[i]);
+				if (i % FILES_PER_BATCH === FILES_PER_BATCH - 1) {
+					await new Promise(resolve => setImmediate(resolve));
+				}
+			}
+		}
+	}
+
+	// Re-indexes a file that was saved or created, unless it is excluded
+	private async update(uri: vscode.Uri) {
+		if (!this.building) { return; }
+		await this.building;
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder) { return; }
+		const relativePath = vscode.workspace.asRelativePath(uri, false);
+		const included = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, escapeGlob(relativePath)), this.excludes.get(folder.uri.toString()), 1);
+		if (included.length > 0) {
+			await this.indexFile(uri);
+		} else {
+			this.removeFile(uri);
+		}
+	}
+
+	private async indexFile(uri: vscode.Uri) {
+		try {
+			const stat = await vscode.workspace.fs.stat(uri);
+			if (stat.type !== vscode.FileType.File || stat.size > MAX_FILE_BYTES) { return; }
+			const bytes = await vscode.workspace.fs.readFile(uri);
+			// Skip binary files
+			if (bytes.includes(0)) { return; }
+			this.indexText(uri, Buffer.from(bytes).toString('utf8'));
+		} catch (e) {
+			console.error(`Could not index ${uri.toString()}`, e);
+		}
+	}
+
+	private indexText(uri: vscode.Uri, text: string) {
+		this.removeFile(uri);
+		const filePath = toWorkspacePath(uri);
+		const lines = text.split(/\r?\n/);
+		const ids: string[] = [];
+		for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+			const end = Math.min(lines.length, start + CHUNK_LINES) - 1;
+			const chunk: CodeChunk = { id: `${uri.toString()}#${start}`, filePath, uri, startLine: start, endLine: end, text: lines.slice(start, end + 1).join('\n') };
+			// The path is indexed too, so searching for a file or folder name finds its chunks
+			this.keywords.add(chunk.id, `${filePath}\n${chunk.text}`);
+			this.chunks.set(chunk.id, chunk);
+			ids.push(chunk.id);
+			if (end === lines.length - 1) { break; }
+		}
+		this.chunksByFile.set(uri.toString(), ids);
+	}
+
+	private removeFile(uri: vscode.Uri) {
+		for (const id of this.chunksByFile.get(uri.toString()) ?? []) {
+			this.keywords.remove(id);
+			this.chunks.delete(id);
+			this.embeddings.delete(id);
+		}
+		this.chunksByFile.delete(uri.toString());
+	}
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ConversationState } from './conversation';
+import { Mention } from './mentions';
+import { FailureReport } from './repair';
+
+/**
+ * One rendered item of a chat panel's transcript: a request, an answer with its thoughts and tool calls, or a report.
+ * The webview produces and replays these; the extension only stores them.
+ */
+export type TranscriptEntry = Record<string, unknown> & { type: string };
+
+export interface ChatSession {
+	id: string;
+	title: string;
+	createdAt: number;
+	updatedAt: number;
+	conversation: ConversationState;
+	transcript: TranscriptEntry[];
+	contextFiles: string[];
+	mentions: Mention[];
+	failureReports: FailureReport[];
+}
+
+/** The content of each file as it was last sent to the model in a session, so diffs from its transcript merge correctly. */
+export type SessionSnapshots = Record<string, string>;
+
+const STORAGE_KEY = 'gemini-diff-generator.sessions';
+const SNAPSHOTS_FOLDER = 'sessionSnapshots';
+const MAX_SESSIONS = 50;
+const MAX_TITLE_LENGTH = 80;
+
+export function createSession(): ChatSession {
+	const now = Date.now();
+	return {
+		id: crypto.randomUUID(),
+		title: 'New chat',
+		createdAt: now,
+		updatedAt: now,
+		conversation: { turns: [], pendingNotes: [] },
+		transcript: [],
+		contextFiles: [],
+		mentions: [],
+		failureReports: [],
+	};
+}
+
+/** Titles a session after the first request in its transcript. */
+export function sessionTitle(transcript: TranscriptEntry[]): string {
+	const first = transcript.find(entry => entry.type === 'user' && typeof entry.text === 'string');
+	const firstLine = first ? String(first.text).trim().split('\n')[0] : '';
+	if (!firstLine) { return 'New chat'; }
+	return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.substring(0, MAX_TITLE_LENGTH)}…` : firstLine;
+}
+
+/**
+ * The chat sessions of this workspace, kept in workspace state so a chat survives closing its panel or reloading
+ * the window. They are listed in the "Gemini Chats" view, most recently used first, from where they can be
+ * reopened or deleted.
+ *
+ * Workspace state is rewritten whole on every save, so it only holds each session's transcript and metadata. The
+ * file snapshots, which can be large, go in a file per session in the workspace's storage folder. Without a
+ * workspace there is no such folder and snapshots last only as long as the panel.
+ */
+export class SessionStore implements vscode.TreeDataProvider<ChatSession> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	constructor(private readonly state: vscode.Memento, private readonly storageUri: vscode.Uri | undefined) { }
+
+	sessions(): ChatSession[] {
+		return this.state.get<ChatSession[]>(STORAGE_KEY, []);
+	}
+
+	get(id: string): ChatSession | undefined {
+		return this.sessions().find(session => session.id === id);
+	}
+
+	/** Stores a session, replacing any earlier version. Sessions with nothing in them yet are not listed. */
+	async save(session: ChatSession, snapshots: SessionSnapshots) {
+		if (session.transcript.length === 0) { return; }
+		const others = this.sessions().filter(existing => existing.id !== session.id);
+		const kept = [session, ...others];
+		await this.update(kept.slice(0, MAX_SESSIONS));
+		await this.writeSnapshots(session.id, snapshots);
+		for (const dropped of kept.slice(MAX_SESSIONS)) {
+			await this.deleteSnapshots(dropped.id);
+		}
+	}
+
+	async delete(id: string) {
+		await this.update(this.sessions().filter(session => session.id !== id));
+		await this.deleteSnapshots(id);
+	}
+
+	/** Reads the snapshots saved with a session, or none if they were lost or never saved. */
+	async loadSnapshots(id: string): Promise<SessionSnapshots> {
+		const uri = this.snapshotsUri(id);
+		if (!uri) { return {}; }
+		try {
+			const stored: unknown = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+			return typeof stored === 'object' && stored !== null ? stored as SessionSnapshots : {};
+		} catch {
+			return {};
+		}
+	}
+
+	/** Moves the snapshots that earlier versions kept in workspace state into files. */
+	async moveSnapshotsToFiles() {
+		if (!this.storageUri) { return; }
+		const stored = this.state.get<(ChatSession & { snapshots?: SessionSnapshots })[]>(STORAGE_KEY, []);
+		if (!stored.some(session => session.snapshots)) { return; }
+		const sessions: ChatSession[] = [];
+		for (const { snapshots, ...session } of stored) {
+			if (snapshots) { await this.writeSnapshots(session.id, snapshots); }
+			sessions.push(session);
+		}
+		await this.update(sessions);
+	}
+
+	getTreeItem(session: ChatSession): vscode.TreeItem {
+		const item = new vscode.TreeItem(session.title);
+		item.description = new Date(session.updatedAt).toLocaleString();
+		item.tooltip = `${session.title}\n${session.transcript.filter(entry => entry.type === 'user').length} request(s)`;
+		item.iconPath = new vscode.ThemeIcon('comment-discussion');
+		item.contextValue = 'chatSession';
+		item.command = { command: 'gemini-diff-generator.openSession', title: 'Open Chat', arguments: [session] };
+		return item;
+	}
+
+	getChildren(session?: ChatSession): ChatSession[] {
+		return session ? [] : this.sessions();
+	}
+
+	private async update(sessions: ChatSession[]) {
+		await this.state.update(STORAGE_KEY, sessions);
+		this.changeEmitter.fire();
+	}
+
+	private snapshotsUri(id: string): vscode.Uri | undefined {
+		return this.storageUri && vscode.Uri.joinPath(this.storageUri, SNAPSHOTS_FOLDER, `${id}.json`);
+	}
+
+	private async writeSnapshots(id: string, snapshots: SessionSnapshots) {
+		if (!this.storageUri) { return; }
+		const folder = vscode.Uri.joinPath(this.storageUri, SNAPSHOTS_FOLDER);
+		await vscode.workspace.fs.createDirectory(folder);
+		await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder, `${id}.json`), Buffer.from(JSON.stringify(snapshots), 'utf8'));
+	}
+
+	private async deleteSnapshots(id: string) {
+		const uri = this.snapshotsUri(id);
+		if (!uri) { return; }
+		try {
+			await vscode.workspace.fs.delete(uri);
+		} catch {
+			// Never saved, or already gone
+		}
+	}
+}
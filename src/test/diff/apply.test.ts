@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { applyHunks } from '../../diff/apply';
+import { parsePatch } from '../../diff/parse';
+
+function hunksOf(...lines: string[]) {
+	return parsePatch(['--- a/a.txt', '+++ b/a.txt', ...lines].join('\n'))[0].hunks;
+}
+
+suite('applyHunks', () => {
+	test('applies a hunk at its header position', () => {
+		const result = applyHunks('one\ntwo\nthree\n', hunksOf('@@ -2 +2 @@', '-two', '+2'));
+		assert.strictEqual(result.content, 'one\n2\nthree\n');
+		assert.strictEqual(result.appliedHunks, 1);
+		assert.strictEqual(result.totalHunks, 1);
+	});
+
+	test('finds a hunk whose line numbers are off', () => {
+		const result = applyHunks('a\nb\nc\nd\ne\nf\n', hunksOf('@@ -1,2 +1,2 @@', ' d', '-e', '+E'));
+		assert.strictEqual(result.content, 'a\nb\nc\nd\nE\nf\n');
+	});
+
+	test('keeps CRLF line endings', () => {
+		const result = applyHunks('one\r\ntwo\r\n', hunksOf('@@ -1,2 +1,2 @@', ' one', '-two', '+2'));
+		assert.strictEqual(result.content, 'one\r\n2\r\n');
+	});
+
+	test('drops the final newline when the new side has none', () => {
+		const result = applyHunks('one\ntwo\n', hunksOf('@@ -1,2 +1,2 @@', ' one', '-two', '+2', '\\ No newline at end of file'));
+		assert.strictEqual(result.content, 'one\n2');
+	});
+
+	test('adds the final newline when only the old side had none', () => {
+		const result = applyHunks('one\ntwo', hunksOf('@@ -1,2 +1,2 @@', ' one', '-two', '\\ No newline at end of file', '+2'));
+		assert.strictEqual(result.content, 'one\n2\n');
+	});
+
+	test('reports a hunk that matches nothing', () => {
+		const result = applyHunks('one\ntwo\n', hunksOf('@@ -1 +1 @@', '-something else entirely', '+new'));
+		assert.strictEqual(result.content, 'one\ntwo\n');
+		assert.strictEqual(result.appliedHunks, 0);
+		assert.strictEqual(result.results[0].failure, 'noContextMatch');
+	});
+
+	test('reports a hunk that matches in several places equally well', () => {
+		const result = applyHunks('x\ny\nx\ny\n', hunksOf('@@ @@', ' x', '-y', '+z'));
+		assert.strictEqual(result.results[0].failure, 'ambiguous');
+	});
+
+	test('reports a hunk that overlaps an earlier one', () => {
+		const result = applyHunks('one\ntwo\n', [...hunksOf('@@ -1 +1 @@', '-one', '+1'), ...hunksOf('@@ -1 +1 @@', '-one', '+uno')]);
+		assert.strictEqual(result.content, '1\ntwo\n');
+		assert.strictEqual(result.results[1].failure, 'overlap');
+	});
+
+	test('only places hunks whose changes stay within the scope', () => {
+		const result = applyHunks('x\ny\nx\ny\n', hunksOf('@@ @@', ' x', '-y', '+z'), { start: 2, end: 4 });
+		assert.strictEqual(result.content, 'x\ny\nx\nz\n');
+		const outside = applyHunks('one\ntwo\n', hunksOf('@@ -1 +1 @@', '-one', '+1'), { start: 1, end: 2 });
+		assert.strictEqual(outside.results[0].failure, 'outOfScope');
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { applyHunks } from '../../diff/apply';
+import { createUnifiedDiff, formatHunk } from '../../diff/format';
+import { parsePatch } from '../../diff/parse';
+
+suite('formatHunk', () => {
+	test('recomputes the header counts', () => {
+		const hunk = { oldStart: 3, oldLines: 9, newStart: 3, newLines: 9, lines: [{ type: 'context' as const, content: 'a' }, { type: 'add' as const, content: 'b' }] };
+		assert.strictEqual(formatHunk(hunk), '@@ -3,1 +3,2 @@\n a\n+b');
+	});
+});
+
+suite('createUnifiedDiff', () => {
+	test('writes a hunk with context around the change', () => {
+		const diff = createUnifiedDiff('a.txt', 'a.txt', 'one\ntwo\nthree', 'one\n2\nthree');
+		assert.strictEqual(diff, '--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+2\n three');
+	});
+
+	test('splits changes whose context does not touch into separate hunks', () => {
+		const old = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+		const diff = createUnifiedDiff('a.txt', 'a.txt', old, old.replace('1\n', 'one\n').replace('10', 'ten'), 1);
+		assert.strictEqual(diff, '--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n-1\n+one\n 2\n@@ -9,2 +9,2 @@\n 9\n-10\n+ten');
+	});
+
+	test('writes a created file against /dev/null', () => {
+		const diff = createUnifiedDiff(undefined, 'new.txt', '', 'a\nb');
+		assert.strictEqual(diff, '--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+a\n+b');
+		assert.strictEqual(parsePatch(diff)[0].kind, 'create');
+	});
+
+	test('writes a deleted file against /dev/null', () => {
+		const diff = createUnifiedDiff('old.txt', undefined, 'a\nb', '');
+		assert.strictEqual(diff, '--- a/old.txt\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-a\n-b');
+		assert.strictEqual(parsePatch(diff)[0].kind, 'delete');
+	});
+
+	test('produces a diff that applies back onto the original', () => {
+		const old = 'function a() {\n\treturn 1;\n}\n\nfunction b() {\n\treturn 2;\n}\n';
+		const changed = 'function a() {\n\treturn 10;\n}\n\nfunction b() {\n\treturn 2;\n}\n\nfunction c() {}\n';
+		const [patch] = parsePatch(createUnifiedDiff('a.ts', 'a.ts', old, changed));
+		assert.strictEqual(applyHunks(old, patch.hunks).content, changed);
+	});
+});
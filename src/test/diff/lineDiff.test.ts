@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { diffLines } from '../../diff/lineDiff';
+
+suite('diffLines', () => {
+	test('finds nothing between identical files', () => {
+		assert.deepStrictEqual(diffLines(['a', 'b'], ['a', 'b']), []);
+	});
+
+	test('finds a changed line', () => {
+		assert.deepStrictEqual(diffLines(['a', 'b', 'c'], ['a', 'B', 'c']), [
+			{ originalStart: 1, originalLength: 1, modifiedStart: 1, modifiedLength: 1 },
+		]);
+	});
+
+	test('finds insertions at the start and end', () => {
+		assert.deepStrictEqual(diffLines(['a', 'b'], ['x', 'a', 'b', 'y']), [
+			{ originalStart: 0, originalLength: 0, modifiedStart: 0, modifiedLength: 1 },
+			{ originalStart: 2, originalLength: 0, modifiedStart: 3, modifiedLength: 1 },
+		]);
+	});
+
+	test('finds deleted lines', () => {
+		assert.deepStrictEqual(diffLines(['a', 'b', 'c'], ['a']), [
+			{ originalStart: 1, originalLength: 2, modifiedStart: 1, modifiedLength: 0 },
+		]);
+	});
+
+	test('compares whole lines', () => {
+		assert.deepStrictEqual(diffLines(['abc'], ['abd']), [
+			{ originalStart: 0, originalLength: 1, modifiedStart: 0, modifiedLength: 1 },
+		]);
+	});
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { MIN_CONFIDENCE, rankHunkCandidates, replacementLines } from '../../diff/match';
+import { Hunk, HunkLine } from '../../diff/parse';
+
+function hunk(...lines: HunkLine[]): Hunk {
+	return { lines };
+}
+
+const context = (content: string): HunkLine => ({ type: 'context', content });
+const remove = (content: string): HunkLine => ({ type: 'remove', content });
+const add = (content: string): HunkLine => ({ type: 'add', content });
+
+suite('rankHunkCandidates', () => {
+	test('ranks an exact match with full confidence', () => {
+		const candidates = rankHunkCandidates(['a', 'b', 'c'], hunk(context('b'), remove('c'), add('d')));
+		assert.deepStrictEqual(candidates, [{ index: 1, confidence: 1 }]);
+	});
+
+	test('matches context lines approximately', () => {
+		const source = ['function total(items) {', '\treturn items.length;', '}'];
+		const [candidate] = rankHunkCandidates(source, hunk(context('function total(item) {'), remove('\treturn items.length;'), add('\treturn 0;')));
+		assert.strictEqual(candidate.index, 0);
+		assert.ok(candidate.confidence < 1 && candidate.confidence >= MIN_CONFIDENCE);
+	});
+
+	test('ignores indentation on removed lines', () => {
+		const [candidate] = rankHunkCandidates(['if (x) {', '    call();', '}'], hunk(context('if (x) {'), remove('\tcall();'), add('\tother();')));
+		assert.strictEqual(candidate.index, 0);
+	});
+
+	test('never places a hunk where a removed line differs', () => {
+		const source = ['const a = 1;', 'const b = 2;', 'const c = 3;'];
+		assert.deepStrictEqual(rankHunkCandidates(source, hunk(context('const a = 1;'), remove('const b = 3;'), context('const c = 3;'))), []);
+	});
+
+	test('prefers the candidate nearest the hint', () => {
+		const source = ['x', 'y', 'x', 'y'];
+		const [candidate] = rankHunkCandidates(source, hunk(context('x'), remove('y'), add('z')), 2);
+		assert.strictEqual(candidate.index, 2);
+	});
+
+	test('places a pure insertion at the hint', () => {
+		assert.deepStrictEqual(rankHunkCandidates(['a'], hunk(add('b')), 1), [{ index: 1, confidence: MIN_CONFIDENCE }]);
+		assert.deepStrictEqual(rankHunkCandidates(['a'], hunk(add('b'))), []);
+	});
+});
+
+suite('replacementLines', () => {
+	test('keeps the source text of context lines', () => {
+		const lines = replacementLines(['function  f() {', 'old', '}'], 0, hunk(context('function f() {'), remove('old'), add('new')));
+		assert.deepStrictEqual(lines, ['function  f() {', 'new']);
+	});
+
+	test('shifts added lines by the indentation the model got wrong', () => {
+		const lines = replacementLines(['if (x) {', '        call();', '}'], 0, hunk(context('if (x) {'), remove('    call();'), add('    other();')));
+		assert.deepStrictEqual(lines, ['if (x) {', '        other();']);
+	});
+});
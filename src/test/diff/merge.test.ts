@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { hasConflictMarkers, mergeThreeWay } from '../../diff/merge';
+
+const labels = { ours: 'proposed', base: 'original', theirs: 'current' };
+
+suite('mergeThreeWay', () => {
+	test('takes changes each side made to different regions', () => {
+		const result = mergeThreeWay(['a', 'b', 'c', 'd', 'e'], ['A', 'b', 'c', 'd', 'e'], ['a', 'b', 'c', 'd', 'E'], labels);
+		assert.deepStrictEqual(result, { lines: ['A', 'b', 'c', 'd', 'E'], conflicts: 0 });
+	});
+
+	test('takes a change both sides made once', () => {
+		const result = mergeThreeWay(['a', 'b', 'c'], ['a', 'B', 'c'], ['a', 'B', 'c'], labels);
+		assert.deepStrictEqual(result, { lines: ['a', 'B', 'c'], conflicts: 0 });
+	});
+
+	test('writes conflicting changes out with markers', () => {
+		const result = mergeThreeWay(['a', 'b', 'c'], ['a', 'ours', 'c'], ['a', 'theirs', 'c'], labels);
+		assert.deepStrictEqual(result, {
+			lines: ['a', '<<<<<<< proposed', 'ours', '||||||| original', 'b', '=======', 'theirs', '>>>>>>> current', 'c'],
+			conflicts: 1,
+		});
+		assert.ok(hasConflictMarkers(result.lines.join('\n')));
+	});
+
+	test('treats an insertion at the edge of a changed region as overlapping', () => {
+		const result = mergeThreeWay(['a', 'b', 'c'], ['a', 'inserted', 'b', 'c'], ['a', 'B', 'c'], labels);
+		assert.strictEqual(result.conflicts, 1);
+		assert.deepStrictEqual(result.lines.slice(1, 4), ['<<<<<<< proposed', 'inserted', 'b']);
+	});
+
+	test('keeps insertions at the start and end of the file', () => {
+		const result = mergeThreeWay(['a', 'b'], ['first', 'a', 'b'], ['a', 'b', 'last'], labels);
+		assert.deepStrictEqual(result, { lines: ['first', 'a', 'b', 'last'], conflicts: 0 });
+	});
+
+	test('takes a deletion on one side', () => {
+		const result = mergeThreeWay(['a', 'b', 'c', 'd'], ['a', 'd'], ['a', 'b', 'c', 'd', 'e'], labels);
+		assert.deepStrictEqual(result, { lines: ['a', 'd', 'e'], conflicts: 0 });
+	});
+
+	test('does not see conflict markers in ordinary text', () => {
+		assert.strictEqual(hasConflictMarkers('a\n<<<<<<< only one marker\nb'), false);
+	});
+});
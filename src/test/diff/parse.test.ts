@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import { parseDiff, parsePatch } from '../../diff/parse';
+
+suite('parseDiff', () => {
+	test('reads paths, kinds and hunks', () => {
+		const { patches, problems } = parseDiff([
+			'--- a/src/one.ts',
+			'+++ b/src/one.ts',
+			'@@ -1,2 +1,2 @@',
+			' first',
+			'-second',
+			'+changed',
+			'--- /dev/null',
+			'+++ b/src/two.ts',
+			'@@ -0,0 +1 @@',
+			'+created',
+		].join('\n'));
+		assert.deepStrictEqual(problems, []);
+		assert.strictEqual(patches.length, 2);
+		assert.deepStrictEqual(patches[0], {
+			kind: 'modify',
+			oldPath: 'src/one.ts',
+			newPath: 'src/one.ts',
+			hunks: [{
+				oldStart: 1, oldLines: 2, newStart: 1, newLines: 2,
+				lines: [{ type: 'context', content: 'first' }, { type: 'remove', content: 'second' }, { type: 'add', content: 'changed' }],
+			}],
+		});
+		assert.strictEqual(patches[1].kind, 'create');
+		assert.strictEqual(patches[1].oldPath, undefined);
+		assert.strictEqual(patches[1].newPath, 'src/two.ts');
+	});
+
+	test('accepts CRLF line endings', () => {
+		const [patch] = parsePatch('--- a/a.txt\r\n+++ b/a.txt\r\n@@ -1 +1 @@\r\n-old\r\n+new\r\n');
+		assert.deepStrictEqual(patch.hunks[0].lines, [{ type: 'remove', content: 'old' }, { type: 'add', content: 'new' }]);
+	});
+
+	test('records "No newline at end of file" on the side it follows', () => {
+		const [patch] = parsePatch([
+			'--- a/a.txt',
+			'+++ b/a.txt',
+			'@@ -1 +1 @@',
+			'-old',
+			'\\ No newline at end of file',
+			'+new',
+		].join('\n'));
+		const [hunk] = patch.hunks;
+		assert.strictEqual(hunk.oldNoNewline, true);
+		assert.strictEqual(hunk.newNoNewline, undefined);
+	});
+
+	test('corrects header counts from the body and warns', () => {
+		const { patches, problems } = parseDiff([
+			'--- a/a.txt',
+			'+++ b/a.txt',
+			'@@ -1,5 +1,5 @@',
+			' keep',
+			'-old',
+			'+new',
+		].join('\n'));
+		const [hunk] = patches[0].hunks;
+		assert.strictEqual(hunk.oldLines, 2);
+		assert.strictEqual(hunk.newLines, 2);
+		assert.strictEqual(problems.length, 1);
+		assert.strictEqual(problems[0].severity, 'warning');
+	});
+
+	test('leaves out a hunk that looks cut off', () => {
+		const { patches, problems } = parseDiff([
+			'--- a/a.txt',
+			'+++ b/a.txt',
+			'@@ -1,2 +1,2 @@',
+			' keep',
+			'-old',
+		].join('\n'));
+		assert.deepStrictEqual(patches[0].hunks, []);
+		assert.strictEqual(problems[0].severity, 'error');
+	});
+
+	test('reads blank lines without a prefix as empty context', () => {
+		const { patches, problems } = parseDiff([
+			'--- a/a.txt',
+			'+++ b/a.txt',
+			'@@ -1,3 +1,3 @@',
+			' before',
+			'',
+			'-old',
+			'+new',
+		].join('\n'));
+		assert.deepStrictEqual(patches[0].hunks[0].lines[1], { type: 'context', content: '' });
+		assert.deepStrictEqual(problems.map(problem => problem.severity), ['warning']);
+	});
+
+	test('joins a wrapped line onto the changed line before it', () => {
+		const { patches, problems } = parseDiff([
+			'--- a/a.txt',
+			'+++ b/a.txt',
+			'@@ -1,3 +1,3 @@',
+			' keep',
+			'-old',
+			'+a long line that the model',
+			'wrapped',
+			' end',
+		].join('\n'));
+		assert.deepStrictEqual(patches[0].hunks[0].lines, [
+			{ type: 'context', content: 'keep' },
+			{ type: 'remove', content: 'old' },
+			{ type: 'add', content: 'a long line that the model wrapped' },
+			{ type: 'context', content: 'end' },
+		]);
+		assert.strictEqual(problems.length, 1);
+		assert.match(problems[0].message, /joined/);
+	});
+
+	test('reads unprefixed lines as context when the counts say they are', () => {
+		const { patches, problems } = parseDiff([
+			'--- a/a.txt',
+			'+++ b/a.txt',
+			'@@ -1,3 +1,3 @@',
+			'-old',
+			'+new',
+			'unprefixed',
+			' keep',
+		].join('\n'));
+		assert.deepStrictEqual(patches[0].hunks[0].lines[2], { type: 'context', content: 'unprefixed' });
+		assert.match(problems[0].message, /no '\+', '-' or ' ' prefix/);
+	});
+
+	test('reads changes without an @@ header as one hunk', () => {
+		const { patches, problems } = parseDiff([
+			'--- a/a.txt',
+			'+++ b/a.txt',
+			'-old',
+			'+new',
+		].join('\n'));
+		assert.strictEqual(patches[0].hunks.length, 1);
+		assert.strictEqual(patches[0].hunks[0].oldStart, undefined);
+		assert.strictEqual(problems[0].severity, 'warning');
+	});
+
+	test('keeps a git rename without hunks', () => {
+		const [patch] = parsePatch([
+			'diff --git a/old.txt b/new.txt',
+			'similarity index 100%',
+			'rename from old.txt',
+			'rename to new.txt',
+		].join('\n'));
+		assert.deepStrictEqual(patch, { kind: 'rename', oldPath: 'old.txt', newPath: 'new.txt', hunks: [] });
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { createMessageHandler, PROTOCOL_VERSION, ProtocolError, WebviewMessage, WebviewMessageHandlers } from '../protocol';
+
+// Handlers that record every message they are given
+function recordingHandlers(received: WebviewMessage[]): WebviewMessageHandlers {
+	const record = (message: WebviewMessage) => { received.push(message); };
+	return {
+		ready: record,
+		saveSession: record,
+		getSlashCommands: record,
+		getMentionSuggestions: record,
+		estimateContext: record,
+		newChat: record,
+		sendMessage: record,
+		stopGeneration: record,
+		applyDiff: record,
+		applyAllDiffs: record,
+		setApiKey: record,
+		exportPatch: record,
+		repairDiff: record,
+		fixVerification: record,
+	};
+}
+
+const sendMessage = {
+	command: 'sendMessage',
+	version: PROTOCOL_VERSION,
+	requestId: 'request-1',
+	text: 'Rename the function',
+	activeFile: 'src/a.ts',
+	contextFiles: ['src/b.ts'],
+	mentions: [{ type: 'file', value: 'src/c.ts' }],
+	agent: false,
+};
+
+suite('createMessageHandler', () => {
+	test('passes a valid message to its handler, without unknown fields', async () => {
+		const received: WebviewMessage[] = [];
+		await createMessageHandler(recordingHandlers(received))({ ...sendMessage, extra: true });
+		const expected: Record<string, unknown> = { ...sendMessage };
+		delete expected.version;
+		assert.deepStrictEqual(received, [expected]);
+	});
+
+	test('accepts the transcript entries the webview records', async () => {
+		const received: WebviewMessage[] = [];
+		await createMessageHandler(recordingHandlers(received))({
+			command: 'saveSession',
+			version: PROTOCOL_VERSION,
+			transcript: [
+				{ type: 'user', text: 'Rename the function' },
+				{
+					type: 'model', prompt: 'Rename the function', thoughts: '', answer: 'Done.', cancelled: false,
+					toolCalls: [{ call: { id: '1', name: 'readFile', args: { path: 'src/a.ts' } }, result: 'contents' }],
+				},
+				{ type: 'verificationReport', results: [{ label: 'npm test', ok: true, output: '' }] },
+				{ type: 'applyReport', report: { filePath: 'src/a.ts', totalHunks: 2, failures: [{ number: 2, reason: 'ambiguous', hunk: '@@ @@' }] } },
+			],
+			contextFiles: [],
+			mentions: [],
+		});
+		assert.strictEqual(received.length, 1);
+	});
+
+	test('rejects invalid messages with a ProtocolError', async () => {
+		const received: WebviewMessage[] = [];
+		const handle = createMessageHandler(recordingHandlers(received));
+		const invalid: unknown[] = [
+			'ready',
+			{ command: 'launchMissiles', version: PROTOCOL_VERSION },
+			{ command: 'ready', version: PROTOCOL_VERSION + 1 },
+			{ ...sendMessage, requestId: 1 },
+			{ ...sendMessage, mentions: [{ type: 'website', value: 'example.com' }] },
+			{ command: 'applyDiff', version: PROTOCOL_VERSION, filePath: 'src/a.ts', diff: '', scope: { filePath: 'src/a.ts', lines: { start: 1.5, end: 2 } } },
+			{ command: 'saveSession', version: PROTOCOL_VERSION, transcript: [{ type: 'model', prompt: 'x' }], contextFiles: [], mentions: [] },
+			{ command: 'saveSession', version: PROTOCOL_VERSION, transcript: [{ type: 'unknown' }], contextFiles: [], mentions: [] },
+		];
+		for (const value of invalid) {
+			await assert.rejects(handle(value), ProtocolError, JSON.stringify(value));
+		}
+		assert.deepStrictEqual(received, []);
+	});
+
+	test('passes on errors thrown by a handler', async () => {
+		const handlers = recordingHandlers([]);
+		handlers.ready = () => { throw new Error('Failed'); };
+		await assert.rejects(createMessageHandler(handlers)({ command: 'ready', version: PROTOCOL_VERSION }), /Failed/);
+	});
+
+	test('gives errors thrown by a handler to onError, with the message', async () => {
+		const handlers = recordingHandlers([]);
+		handlers.sendMessage = () => { throw new Error('Failed'); };
+		const errors: [unknown, WebviewMessage][] = [];
+		await createMessageHandler(handlers, (error, message) => { errors.push([error, message]); })(sendMessage);
+		assert.strictEqual(errors.length, 1);
+		assert.match(String(errors[0][0]), /Failed/);
+		assert.strictEqual(errors[0][1].command === 'sendMessage' && errors[0][1].requestId, 'request-1');
+	});
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ContextFile } from '../context';
+import { shortenToBudget, SymbolRange } from '../truncation';
+
+function contextFile(filePath: string, content: string): ContextFile {
+	return { filePath, uri: { path: filePath } as vscode.Uri, content, text: content, tokens: Math.ceil(content.length / 4) };
+}
+
+// Lines of 40 characters, 10 tokens each
+function numberedLines(count: number): string {
+	return [...Array(count).keys()].map(i => `line ${i + 1}`.padEnd(40, '.')).join('\n');
+}
+
+function symbol(name: string, start: number, end: number): SymbolRange {
+	return { name, range: { start: { line: start }, end: { line: end } } as vscode.Range };
+}
+
+const noSymbols = async () => [];
+
+suite('shortenToBudget', () => {
+	test('leaves files that fit alone', async () => {
+		const files = [contextFile('a.ts', numberedLines(10))];
+		assert.deepStrictEqual(await shortenToBudget(files, '', { tokenBudget: 1000, strategy: 'outline' }, noSymbols), files);
+	});
+
+	test('shortens the largest other file before the active one', async () => {
+		const active = contextFile('active.ts', numberedLines(30));
+		const large = contextFile('large.ts', numberedLines(100));
+		const [first, second] = await shortenToBudget([active, large], '', { tokenBudget: 800, strategy: 'headTail' }, noSymbols);
+		assert.strictEqual(first, active);
+		assert.strictEqual(second.truncation, 'headTail');
+		// Line breaks and the omission marker aren't budgeted for, so the result can go a little over
+		assert.ok(first.tokens + second.tokens <= 800 * 1.1);
+		assert.match(second.text, /^line 1\b/);
+		assert.match(second.text, /\[\.\.\. lines \d+-\d+ omitted \.\.\.\]/);
+		assert.match(second.text, /line 100\.*$/);
+	});
+
+	test('keeps symbols named in the request in full and the outline of the rest', async () => {
+		const file = contextFile('a.ts', numberedLines(100));
+		const symbols = async () => [symbol('parse', 0, 4), symbol('format', 50, 60)];
+		const [shortened] = await shortenToBudget([file], 'fix parse', { tokenBudget: 300, strategy: 'relevantSymbols' }, symbols);
+		assert.strictEqual(shortened.truncation, 'relevantSymbols');
+		assert.deepStrictEqual(shortened.text.split('\n').map(line => line.replace(/\.+$/, '')), [
+			'line 1', 'line 2', 'line 3', 'line 4', 'line 5',
+			'[... lines 6-50 omitted ...]',
+			'line 51',
+			'[... lines 52-100 omitted ...]',
+		]);
+	});
+
+	test('falls back to the start and end of a file without symbols', async () => {
+		const [shortened] = await shortenToBudget([contextFile('a.ts', numberedLines(100))], '', { tokenBudget: 300, strategy: 'outline' }, noSymbols);
+		assert.strictEqual(shortened.truncation, 'headTail');
+		assert.ok(shortened.tokens <= 300 * 1.1);
+	});
+
+	test('does not shorten a file that could not be read', async () => {
+		const unreadable = { ...contextFile('a.ts', ''), content: undefined, text: numberedLines(100), tokens: 1000 };
+		assert.deepStrictEqual(await shortenToBudget([unreadable], '', { tokenBudget: 100, strategy: 'headTail' }, noSymbols), [unreadable]);
+	});
+});
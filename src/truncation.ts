@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { ContextFile, ContextSettings, TruncationStrategy } from './context';
+import { estimateTokens } from './conversation';
+
+/** A symbol of a file and the lines it spans. */
+export interface SymbolRange {
+	name: string;
+	range: vscode.Range;
+}
+
+/** Looks up the symbols of a file, such as its functions and classes. */
+export type SymbolLookup = (uri: vscode.Uri) => Promise<SymbolRange[]>;
+
+// Files are never shortened below this, so a few huge files can't crowd out everything else
+const MIN_FILE_TOKENS = 200;
+
+function omissionMarker(start: number, end: number): string {
+	return `[... lines ${start + 1}-${end + 1} omitted ...]`;
+}
+
+/** Joins the kept lines, replacing every run of dropped lines with a marker that says which lines are missing. */
+function keepLines(lines: string[], keep: boolean[]): string {
+	const result: string[] = [];
+	let omittedFrom: number | undefined;
+	for (let i = 0; i < lines.length; i++) {
+		if (keep[i]) {
+			if (omittedFrom !== undefined) {
+				result.push(omissionMarker(omittedFrom, i - 1));
+				omittedFrom = undefined;
+			}
+			result.push(lines[i]);
+		} else if (omittedFrom === undefined) {
+			omittedFrom = i;
+		}
+	}
+	if (omittedFrom !== undefined) { result.push(omissionMarker(omittedFrom, lines.length - 1)); }
+	return result.join('\n');
+}
+
+/** Keeps as many lines from the start and end of the file as fit `tokenBudget`, split evenly. */
+function headTail(lines: string[], tokenBudget: number): string {
+	const keep = lines.map(() => false);
+	let remaining = tokenBudget;
+	for (let head = 0, tail = lines.length - 1; head <= tail;) {
+		const cost = estimateTokens(lines[head]) + (head === tail ? 0 : estimateTokens(lines[tail]));
+		if (cost > remaining) { break; }
+		remaining -= cost;
+		keep[head++] = true;
+		keep[tail--] = true;
+	}
+	return keepLines(lines, keep);
+}
+
+/** Words in the request that could name a symbol. */
+function mentionedNames(query: string): Set<string> {
+	return new Set((query.match(/[A-Za-z_$][\w$]{2,}/g) ?? []).map(word => word.toLowerCase()));
+}
+
+/**
+ * Shortens a file with `strategy`. The symbol-based strategies fall back to `headTail` when the file has no symbols,
+ * and `relevantSymbols` falls back to the outline when the request names none of them.
+ */
+async function shorten(file: ContextFile, content: string, strategy: TruncationStrategy, query: string, tokenBudget: number, symbolsOf: SymbolLookup): Promise<ContextFile> {
+	const lines = content.split('\n');
+	const symbols = strategy === 'headTail' ? [] : await symbolsOf(file.uri);
+	if (symbols.length === 0) {
+		const text = headTail(lines, tokenBudget);
+		return { ...file, text, tokens: estimateTokens(text), truncation: 'headTail' };
+	}
+
+	const keep = lines.map(() => false);
+	symbols.forEach(symbol => keep[symbol.range.start.line] = true);
+	const names = mentionedNames(query);
+	const relevant = strategy === 'relevantSymbols' ? symbols.filter(symbol => names.has(symbol.name.toLowerCase())) : [];
+	for (const symbol of relevant) {
+		for (let line = symbol.range.start.line; line <= symbol.range.end.line; line++) { keep[line] = true; }
+	}
+
+	const text = keepLines(lines, keep);
+	return { ...file, text, tokens: estimateTokens(text), truncation: relevant.length > 0 ? 'relevantSymbols' : 'outline' };
+}
+
+/**
+ * Shortens context files until they fit the budget. The largest files are shortened first with the configured
+ * strategy, and the first file, the one the user is working in, only if that isn't enough. If the files are still
+ * over budget after that, the largest are cut down to their start and end.
+ */
+export async function shortenToBudget(files: ContextFile[], query: string, settings: ContextSettings, symbolsOf: SymbolLookup): Promise<ContextFile[]> {
+	const result = [...files];
+	let total = result.reduce((sum, file) => sum + file.tokens, 0);
+	if (total <= settings.tokenBudget) { return result; }
+
+	const bySize = (a: number, b: number) => result[b].tokens - result[a].tokens;
+	const order = [...result.keys()].slice(1).sort(bySize);
+	if (result.length > 0) { order.push(0); }
+
+	for (const index of order) {
+		if (total <= settings.tokenBudget) { break; }
+		const file = result[index];
+		if (file.content === undefined || file.tokens <= MIN_FILE_TOKENS) { continue; }
+		const target = Math.max(MIN_FILE_TOKENS, file.tokens - (total - settings.tokenBudget));
+		const shortened = await shorten(file, file.content, settings.strategy, query, target, symbolsOf);
+		if (shortened.tokens < file.tokens) {
+			total -= file.tokens - shortened.tokens;
+			result[index] = shortened;
+		}
+	}
+
+	for (const index of [...result.keys()].sort(bySize)) {
+		if (total <= settings.tokenBudget) { break; }
+		const file = result[index];
+		if (file.content === undefined || file.tokens <= MIN_FILE_TOKENS) { continue; }
+		const target = Math.max(MIN_FILE_TOKENS, file.tokens - (total - settings.tokenBudget));
+		const text = headTail(file.content.split('\n'), target);
+		const tokens = estimateTokens(text);
+		if (tokens < file.tokens) {
+			total -= file.tokens - tokens;
+			result[index] = { ...file, text, tokens, truncation: 'headTail' };
+		}
+	}
+	return result;
+}
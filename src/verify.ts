@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { exec } from 'child_process';
+import { FixRequest } from './prompts';
+
+/**
+ * A check run on the files of a changeset after it is applied:
+ * - `format` and `organizeImports` run the language's formatter or import organizer on each file.
+ * - `task` runs a workspace task by name, such as `npm: test`. It fails if it ends without an exit code, and is
+ *   stopped if it runs longer than its timeout, as background and watch tasks do.
+ * - `shell` runs a command in the workspace folder. `${file}` runs it once per file with that file's path,
+ *   `${files}` once with all of them. In a multi-root workspace it runs in each folder with applied files, given
+ *   the paths of the files in that folder.
+ */
+export type VerificationStep =
+	| { type: 'format' }
+	| { type: 'organizeImports' }
+	| { type: 'task', name: string, timeout?: number }
+	| { type: 'shell', command: string, timeout?: number };
+
+export interface StepResult {
+	label: string;
+	ok: boolean;
+	output: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000;
+// Only the end of long output is kept, since that is usually where failures are summarized
+const MAX_OUTPUT_CHARS = 8000;
+
+export function readVerificationSteps(): VerificationStep[] {
+	return vscode.workspace.getConfiguration('gemini-diff-generator').get<VerificationStep[]>('verificationSteps', []);
+}
+
+function tail(output: string): string {
+	return output.length > MAX_OUTPUT_CHARS ? `[... output truncated ...]\n${output.substring(output.length - MAX_OUTPUT_CHARS)}` : output;
+}
+
+function quote(argument: string): string {
+	if (process.platform !== 'win32') { return `'${argument.replace(/'/g, `'\\''`)}'`; }
+	// cmd.exe expands %VAR% even inside double quotes, so each % is escaped outside them. Windows paths can't contain
+	// a double quote, but one is doubled anyway so it can't end the argument.
+	return `"${argument.replace(/"/g, '""').replace(/%/g, '"^%"')}"`;
+}
+
+async function applyEdits(uri: vscode.Uri, edits: vscode.TextEdit[] | undefined): Promise<boolean> {
+	if (!edits || edits.length === 0) { return false; }
+	const edit = new vscode.WorkspaceEdit();
+	edit.set(uri, edits);
+	return vscode.workspace.applyEdit(edit);
+}
+
+async function formatFiles(uris: vscode.Uri[]): Promise<StepResult> {
+	const changed: string[] = [];
+	for (const uri of uris) {
+		const document = await vscode.workspace.openTextDocument(uri);
+		const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
+		const options: vscode.FormattingOptions = {
+			tabSize: typeof editor?.options.tabSize === 'number' ? editor.options.tabSize : 4,
+			insertSpaces: typeof editor?.options.insertSpaces === 'boolean' ? editor.options.insertSpaces : true,
+		};
+		const edits = await vscode.commands.executeCommand<vscode.TextEdit[]>('vscode.executeFormatDocumentProvider', uri, options);
+		if (await applyEdits(uri, edits)) { changed.push(vscode.workspace.asRelativePath(uri)); }
+	}
+	return { label: 'Format document', ok: true, output: changed.length > 0 ? `Formatted ${changed.join(', ')}.` : 'Nothing to format.' };
+}
+
+async function organizeImports(uris: vscode.Uri[]): Promise<StepResult> {
+	const changed: string[] = [];
+	for (const uri of uris) {
+		const document = await vscode.workspace.openTextDocument(uri);
+		const fullRange = new vscode.Range(0, 0, document.lineCount, 0);
+		const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>('vscode.executeCodeActionProvider', uri, fullRange, vscode.CodeActionKind.SourceOrganizeImports.value) ?? [];
+		for (const action of actions) {
+			if (action.edit && await vscode.workspace.applyEdit(action.edit)) { changed.push(vscode.workspace.asRelativePath(uri)); }
+			if (action.command) { await vscode.commands.executeCommand(action.command.command, ...(action.command.arguments ?? [])); }
+		}
+	}
+	return { label: 'Organize imports', ok: true, output: changed.length > 0 ? `Organized imports in ${changed.join(', ')}.` : 'Nothing to organize.' };
+}
+
+async function runTask(name: string, timeout: number): Promise<StepResult> {
+	const label = `Task: ${name}`;
+	const tasks = await vscode.tasks.fetchTasks();
+	const task = tasks.find(t => t.name === name || `${t.source}: ${t.name}` === name);
+	if (!task) { return { label, ok: false, output: `No task named "${name}" was found.` }; }
+
+	// Listen before starting, since a quick task can end before `executeTask` resolves. Tasks without a process, such
+	// as custom executions, and tasks whose process fails to start only fire `onDidEndTask`.
+	const isThisTask = (execution: vscode.TaskExecution) => execution.task.name === task.name && execution.task.source === task.source;
+	const disposables: vscode.Disposable[] = [];
+	const ended = new Promise<{ exitCode?: number } | 'timeout'>(resolve => {
+		const timer = setTimeout(() => resolve('timeout'), timeout);
+		disposables.push(
+			{ dispose: () => clearTimeout(timer) },
+			vscode.tasks.onDidEndTaskProcess(event => {
+				if (isThisTask(event.execution)) { resolve({ exitCode: event.exitCode }); }
+			}),
+			vscode.tasks.onDidEndTask(event => {
+				if (isThisTask(event.execution)) { resolve({}); }
+			}),
+		);
+	});
+	try {
+		const execution = await vscode.tasks.executeTask(task);
+		const result = await ended;
+		if (result === 'timeout') {
+			execution.terminate();
+			return { label, ok: false, output: `Stopped after ${timeout / 1000}s. Background and watch tasks never finish, so use a task that exits.` };
+		}
+		if (result.exitCode === undefined) {
+			return { label, ok: false, output: 'The task ended without an exit code, so it may not have run. Its output is in its terminal.' };
+		}
+		return { label, ok: result.exitCode === 0, output: `Exited with code ${result.exitCode}. The task's output is in its terminal.` };
+	} finally {
+		disposables.forEach(disposable => disposable.dispose());
+	}
+}
+
+function runShell(command: string, cwd: string, timeout: number): Promise<StepResult> {
+	return new Promise(resolve => {
+		exec(command, { cwd, timeout, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+			const output = tail([stdout, stderr].filter(Boolean).join('\n').trim());
+			if (error?.killed) {
+				resolve({ label: command, ok: false, output: `Timed out after ${timeout / 1000}s.\n${output}` });
+			} else {
+				resolve({ label: command, ok: !error, output: output || (error ? `Exited with code ${error.code}.` : 'No output.') });
+			}
+		});
+	});
+}
+
+// Tasks and shell commands run code from the workspace, so they only run once the user trusts it
+function skipUntrusted(label: string): StepResult | undefined {
+	if (vscode.workspace.isTrusted) { return undefined; }
+	return { label, ok: true, output: 'Skipped, since this workspace is not trusted. Trust it to run tasks and commands after changes are applied.' };
+}
+
+/**
+ * Runs the verification steps on the applied files, in order. The files are saved first if any step runs outside
+ * the editor, so tasks and commands see the new content. Tasks and shell commands are skipped in untrusted workspaces.
+ */
+export async function runVerification(uris: vscode.Uri[], steps: VerificationStep[] = readVerificationSteps()): Promise<StepResult[]> {
+	const results: StepResult[] = [];
+	const saveFiles = async () => {
+		for (const uri of uris) { await (await vscode.workspace.openTextDocument(uri)).save(); }
+	};
+	const folders = new Map<vscode.WorkspaceFolder, string[]>();
+	for (const uri of uris) {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (folder) { folders.set(folder, [...folders.get(folder) ?? [], vscode.workspace.asRelativePath(uri, false)]); }
+	}
+	const multiRoot = folders.size > 1;
+
+	for (const step of steps) {
+		try {
+			switch (step.type) {
+				case 'format':
+					results.push(await formatFiles(uris));
+					break;
+				case 'organizeImports':
+					results.push(await organizeImports(uris));
+					break;
+				case 'task': {
+					const skipped = skipUntrusted(`Task: ${step.name}`);
+					if (skipped) {
+						results.push(skipped);
+						break;
+					}
+					await saveFiles();
+					results.push(await runTask(step.name, step.timeout ?? DEFAULT_TIMEOUT_MS));
+					break;
+				}
+				case 'shell': {
+					const skipped = skipUntrusted(step.command);
+					if (skipped) {
+						results.push(skipped);
+						break;
+					}
+					await saveFiles();
+					const timeout = step.timeout ?? DEFAULT_TIMEOUT_MS;
+					for (const [folder, filePaths] of folders) {
+						const commands = step.command.includes('${file}')
+							? filePaths.map(filePath => step.command.split('${file}').join(quote(filePath)))
+							: [step.command.split('${files}').join(filePaths.map(quote).join(' '))];
+						for (const command of commands) {
+							const result = await runShell(command, folder.uri.fsPath, timeout);
+							results.push(multiRoot ? { ...result, label: `${folder.name}: ${result.label}` } : result);
+						}
+					}
+					break;
+				}
+			}
+		} catch (e) {
+			const errorMessage = e instanceof Error ? e.message : String(e);
+			results.push({ label: step.type, ok: false, output: errorMessage });
+		}
+	}
+	return results;
+}
+
+/**
+ * Asks the model to fix what made verification fail. `context` holds the current content of the applied files.
+ */
+export function buildVerificationFixRequest(results: StepResult[], context: string): FixRequest {
+	const failures = results.filter(result => !result.ok).map(result =>
+		`${result.label}:\n\`\`\`\n${result.output}\n\`\`\``
+	).join('\n\n');
+
+	return {
+		context: `After your changes were applied, these verification steps failed:
+
+${failures}
+
+This is the current content of the changed files:
+${context}`,
+		request: `Find the cause of each failure and generate diffs that fix them, against the content above.
+
+`,
+		outputFormat: `Generate a SEPARATE diff for EACH file, each in its own Markdown code block with the language identifier 'diff', using the headers '--- a/path/to/file.ext' and '+++ b/path/to/file.ext'.
+Copy every context and removed line exactly from the content above, including indentation, and use correct @@ line numbers.`,
+	};
+}
@@ -0,0 +1,765 @@
+const vscode = acquireVsCodeApi();
+// The message shapes are defined in src/protocol.ts; this must match PROTOCOL_VERSION there
+const PROTOCOL_VERSION = 1;
+// Raw HTML in markdown is shown as text, and the rendered result is sanitized as well
+const md = window.markdownit({ html: false, linkify: false });
+const messagesDiv = document.getElementById('messages');
+const userInput = document.getElementById('user-input');
+const sendButton = document.getElementById('send-button');
+const newChatButton = document.getElementById('new-chat-button');
+const apiKeySetup = document.getElementById('api-key-setup');
+const contextListDiv = document.getElementById('context-list');
+const autocompletePopup = document.getElementById('autocomplete-popup');
+const tokenMeter = document.getElementById('token-meter');
+const agentMode = document.getElementById('agent-mode');
+
+let isGenerating = false;
+let activeFile = '';
+let contextFiles = new Set();
+let autoFiles = new Set();
+let dismissedAutoFiles = new Set();
+let tokenEstimates = new Map();
+// Mentions other than files, keyed by type and value
+let mentions = new Map();
+const MENTION_ICONS = { file: '📄', folder: '📁', symbol: '🔣', git: '⎇', problems: '⚠', selection: '✂', search: '🔍' };
+let autocompleteState = { active: false, word: '', options: [], selectedIndex: -1 };
+// What the panel shows, as entries that can be saved and replayed to rebuild it
+let transcript = [];
+// The answers still streaming, by the ID of their request, each with its bubble and transcript entry
+const responses = new Map();
+let requestCounter = 0;
+
+function post(message) {
+    vscode.postMessage({ ...message, version: PROTOCOL_VERSION });
+}
+
+const ALLOWED_TAGS = new Set([
+    'a', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'li',
+    'ol', 'p', 'pre', 's', 'span', 'strong', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul'
+]);
+const ALLOWED_ATTRIBUTES = new Set(['class', 'href', 'title', 'start', 'align']);
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+
+// Keeps only the elements and attributes markdown produces; anything else, such as a script, is dropped
+function sanitizeHtml(html) {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    Array.from(template.content.querySelectorAll('*')).forEach(element => {
+        if (!ALLOWED_TAGS.has(element.tagName.toLowerCase())) {
+            element.remove();
+            return;
+        }
+        Array.from(element.attributes).forEach(attribute => {
+            const allowed = ALLOWED_ATTRIBUTES.has(attribute.name) && (attribute.name !== 'href' || SAFE_LINK.test(attribute.value.trim()));
+            if (!allowed) element.removeAttribute(attribute.name);
+        });
+    });
+    return template.innerHTML;
+}
+
+function renderMarkdown(text) {
+    return sanitizeHtml(md.render(text));
+}
+
+function createSpan(text, className) {
+    const span = document.createElement('span');
+    span.textContent = text;
+    if (className) span.className = className;
+    return span;
+}
+
+function createRemoveButton(file, auto) {
+    const button = document.createElement('button');
+    button.className = 'remove-context-btn';
+    button.dataset.filepath = file;
+    if (auto) button.dataset.auto = 'true';
+    button.textContent = '✖';
+    return button;
+}
+
+function renderContextFiles() {
+    contextListDiv.replaceChildren();
+    const activeItem = document.createElement('div');
+    activeItem.className = 'context-file-item';
+    activeItem.dataset.filepath = activeFile;
+    activeItem.appendChild(createSpan(`${activeFile} (Active)`));
+    contextListDiv.appendChild(activeItem);
+
+    contextFiles.forEach(file => {
+        const item = document.createElement('div');
+        item.className = 'context-file-item';
+        item.dataset.filepath = file;
+        item.append(createSpan(file), createRemoveButton(file, false));
+        contextListDiv.appendChild(item);
+    });
+
+    autoFiles.forEach(file => {
+        const item = document.createElement('div');
+        item.className = 'context-file-item';
+        item.dataset.filepath = file;
+        item.title = 'Added automatically because it is related to the active file';
+        const label = createSpan(file + ' ');
+        label.appendChild(createSpan('auto', 'auto-badge'));
+        item.append(label, createRemoveButton(file, true));
+        contextListDiv.appendChild(item);
+    });
+
+    mentions.forEach((mention, key) => {
+        const item = document.createElement('div');
+        item.className = 'context-file-item';
+        const icon = document.createElement('span');
+        icon.className = 'mention-icon';
+        icon.textContent = MENTION_ICONS[mention.type];
+        const label = document.createElement('span');
+        label.textContent = mention.value ? `${mention.type}:${mention.value}` : mention.type;
+        const removeButton = document.createElement('button');
+        removeButton.className = 'remove-context-btn';
+        removeButton.dataset.mention = key;
+        removeButton.textContent = '✖';
+        item.append(icon, label, removeButton);
+        contextListDiv.appendChild(item);
+    });
+
+    renderTokenCounts();
+    post({ command: 'estimateContext', activeFile: activeFile, contextFiles: allContextFiles() });
+}
+
+// The files picked by hand, followed by the ones added automatically
+function allContextFiles() {
+    return Array.from(new Set([...contextFiles, ...autoFiles]));
+}
+
+function formatTokens(tokens) {
+    return tokens >= 1000 ? (tokens / 1000).toFixed(1) + 'k' : String(tokens);
+}
+
+// Shows the estimated size of each context file and how the total compares to the budget
+function renderTokenCounts(budget, strategy) {
+    contextListDiv.querySelectorAll('.context-file-item').forEach(item => {
+        const tokens = tokenEstimates.get(item.dataset.filepath);
+        if (tokens === undefined) return;
+        const count = document.createElement('span');
+        count.className = 'token-count';
+        count.textContent = '≈' + formatTokens(tokens) + ' tokens';
+        item.insertBefore(count, item.querySelector('.remove-context-btn'));
+    });
+    if (budget === undefined) return;
+
+    const total = Array.from(tokenEstimates.values()).reduce((sum, tokens) => sum + tokens, 0);
+    const overBudget = total > budget;
+    tokenMeter.textContent = `(≈${formatTokens(total)} / ${formatTokens(budget)} tokens)`;
+    tokenMeter.classList.toggle('over-budget', overBudget);
+    tokenMeter.title = overBudget ? `Over budget: the largest files will be shortened (${strategy})` : '';
+}
+
+contextListDiv.addEventListener('click', (e) => {
+    const target = e.target;
+    if (target.classList.contains('remove-context-btn') && target.dataset.mention) {
+        mentions.delete(target.dataset.mention);
+        renderContextFiles();
+    } else if (target.classList.contains('remove-context-btn')) {
+        const filePath = target.dataset.filepath;
+        if (filePath) {
+            contextFiles.delete(filePath);
+            // A removed auto file stays out until the active file changes
+            if (target.dataset.auto) {
+                autoFiles.delete(filePath);
+                dismissedAutoFiles.add(filePath);
+            }
+            renderContextFiles();
+        }
+    }
+});
+
+sendButton.addEventListener('click', handleSendOrStop);
+
+document.getElementById('set-api-key-button').addEventListener('click', () => {
+    post({ command: 'setApiKey' });
+});
+
+newChatButton.addEventListener('click', () => {
+    if (isGenerating) return;
+    messagesDiv.replaceChildren();
+    transcript = [];
+    post({ command: 'newChat' });
+    userInput.focus();
+});
+
+userInput.addEventListener('keydown', (e) => {
+    if (autocompleteState.active) {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            autocompleteState.selectedIndex = Math.min(autocompleteState.selectedIndex + 1, autocompleteState.options.length - 1);
+            updateAutocompleteSelection();
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            autocompleteState.selectedIndex = Math.max(autocompleteState.selectedIndex - 1, 0);
+            updateAutocompleteSelection();
+        } else if (e.key === 'Tab' || e.key === 'Enter') {
+            e.preventDefault();
+            selectAutocompleteOption();
+        } else if (e.key === 'Escape' || e.key === ' ') {
+            hideAutocomplete();
+        }
+    } else if (e.key === 'Enter' && e.shiftKey) {
+        e.preventDefault();
+        if (!isGenerating) handleSendOrStop();
+    }
+});
+
+userInput.addEventListener('input', () => {
+    const text = userInput.value;
+    const cursorPos = userInput.selectionStart;
+    const textBeforeCursor = text.substring(0, cursorPos);
+    const match = textBeforeCursor.match(/(?:^|\s)@(\S*)$/);
+    const slashMatch = textBeforeCursor.match(/^\/[\w-]*$/);
+
+    // A slash command at the start picks the prompt template
+    if (slashMatch) {
+        autocompleteState.active = true;
+        autocompleteState.word = slashMatch[0];
+        post({ command: 'getSlashCommands', query: autocompleteState.word });
+    // '@search:' mentions take a query rather than a file name
+    } else if (match && !match[1].startsWith('search:')) {
+        autocompleteState.active = true;
+        autocompleteState.word = match[1];
+        post({ command: 'getMentionSuggestions', query: autocompleteState.word });
+    } else {
+        hideAutocomplete();
+    }
+});
+
+function showAutocomplete(suggestions) {
+    if (suggestions.length === 0) {
+        hideAutocomplete();
+        return;
+    }
+    autocompleteState.options = suggestions;
+    autocompleteState.selectedIndex = 0;
+    autocompletePopup.replaceChildren();
+    suggestions.forEach((s, index) => {
+        const item = document.createElement('div');
+        const icon = document.createElement('span');
+        icon.className = 'mention-icon';
+        icon.textContent = s.slashCommand ? '/' : MENTION_ICONS[s.mention ? s.mention.type : s.label.replace(/:.*$/, '')] || '@';
+        const label = document.createElement('span');
+        label.textContent = s.label;
+        item.append(icon, label);
+        if (s.detail) {
+            const detail = document.createElement('span');
+            detail.className = 'suggestion-detail';
+            detail.textContent = s.detail;
+            item.appendChild(detail);
+        }
+        if (index === 0) item.classList.add('selected');
+        item.addEventListener('click', () => {
+            autocompleteState.selectedIndex = index;
+            selectAutocompleteOption();
+        });
+        autocompletePopup.appendChild(item);
+    });
+    autocompletePopup.classList.remove('hidden');
+}
+
+function hideAutocomplete() {
+    autocompleteState.active = false;
+    autocompletePopup.classList.add('hidden');
+}
+
+function updateAutocompleteSelection() {
+    const items = autocompletePopup.children;
+    for (let i = 0; i < items.length; i++) {
+        items[i].classList.toggle('selected', i === autocompleteState.selectedIndex);
+    }
+}
+
+function selectAutocompleteOption() {
+    if (autocompleteState.selectedIndex === -1) {
+        hideAutocomplete();
+        return;
+    }
+    const selected = autocompleteState.options[autocompleteState.selectedIndex];
+    const mention = selected.mention;
+    const text = userInput.value;
+    const cursorPos = userInput.selectionStart;
+    const textBeforeCursor = text.substring(0, cursorPos);
+    const textAfterCursor = text.substring(cursorPos);
+    if (selected.slashCommand) {
+        userInput.value = '/' + selected.slashCommand + ' ' + textAfterCursor.trimStart();
+        const commandEnd = selected.slashCommand.length + 2;
+        userInput.setSelectionRange(commandEnd, commandEnd);
+        userInput.focus();
+        hideAutocomplete();
+        return;
+    }
+    // Files are written out as plain paths; other mentions keep their '@type:' prefix
+    let replacementText = mention && mention.type === 'file' ? selected.label + ' ' : '@' + selected.label + ' ';
+    if (!mention) replacementText = '@' + selected.label;
+
+    const newText = textBeforeCursor.replace(/@\S*$/, replacementText) + textAfterCursor;
+    userInput.value = newText;
+    const newCursorPos = newText.length - textAfterCursor.length;
+    userInput.setSelectionRange(newCursorPos, newCursorPos);
+    userInput.focus();
+
+    // A bare type such as 'folder:' needs more typing, so suggestions carry on
+    if (!mention) {
+        userInput.dispatchEvent(new Event('input'));
+        return;
+    }
+    if (mention.type === 'file') {
+        contextFiles.add(mention.value);
+        autoFiles.delete(mention.value);
+    } else {
+        mentions.set(mention.type + ':' + mention.value, mention);
+    }
+    renderContextFiles();
+    hideAutocomplete();
+}
+
+window.addEventListener('message', event => {
+    const message = event.data;
+    switch (message.command) {
+        case 'updateActiveFile':
+            if (message.filePath !== activeFile) {
+                autoFiles = new Set();
+                dismissedAutoFiles = new Set();
+            }
+            activeFile = message.filePath;
+            renderContextFiles();
+            break;
+        case 'relatedFiles':
+            if (message.activeFile !== activeFile) break;
+            autoFiles = new Set(message.files.filter(file => file !== activeFile && !contextFiles.has(file) && !dismissedAutoFiles.has(file)));
+            renderContextFiles();
+            break;
+        case 'contextEstimate':
+            tokenEstimates = new Map(message.files.map(file => [file.filePath, file.tokens]));
+            contextListDiv.querySelectorAll('.token-count').forEach(count => count.remove());
+            renderTokenCounts(message.budget, message.strategy);
+            break;
+        case 'slashCommands':
+            if (autocompleteState.active && message.query === autocompleteState.word) {
+                showAutocomplete(message.commands
+                    .filter(c => ('/' + c.name).startsWith(message.query))
+                    .map(c => ({ label: '/' + c.name, detail: c.description, slashCommand: c.name })));
+            }
+            break;
+        case 'mentionSuggestions':
+            if (autocompleteState.active && message.query === autocompleteState.word) {
+                showAutocomplete(message.suggestions);
+            }
+            break;
+        case 'streamThought':
+            appendThought(responses.get(message.requestId), message.text);
+            break;
+        case 'streamResponse':
+            appendResponse(responses.get(message.requestId), message.text);
+            break;
+        case 'toolCall':
+            appendToolCall(responses.get(message.requestId), message.call);
+            break;
+        case 'toolResult':
+            appendToolResult(responses.get(message.requestId), message.id, message.result);
+            break;
+        case 'generationComplete':
+            finalizeGeneration(responses.get(message.requestId), message.cancelled);
+            responses.delete(message.requestId);
+            saveSession();
+            break;
+        case 'startRequest':
+            addUserMessage(message.text);
+            prepareForLlmResponse(message.text, message.scope, message.requestId);
+            break;
+        case 'verificationReport':
+            addVerificationReport(message.results);
+            saveSession();
+            break;
+        case 'applyReport':
+            addApplyReport(message);
+            saveSession();
+            break;
+        case 'loadSession':
+            vscode.setState({ sessionId: message.sessionId });
+            contextFiles = new Set(message.contextFiles);
+            mentions = new Map(message.mentions.map(mention => [mention.type + ':' + mention.value, mention]));
+            replayTranscript(message.transcript);
+            renderContextFiles();
+            break;
+        case 'sessionStarted':
+            vscode.setState({ sessionId: message.sessionId });
+            break;
+        case 'apiKeyStatus':
+            apiKeySetup.classList.toggle('hidden', message.configured);
+            break;
+    }
+});
+
+function handleSendOrStop() {
+    if (isGenerating) {
+        post({ command: 'stopGeneration' });
+    } else {
+        const text = userInput.value;
+        if (text) {
+            addUserMessage(text);
+            const requestId = 'webview-' + (++requestCounter);
+            post({
+                command: 'sendMessage',
+                requestId: requestId,
+                text: text,
+                activeFile: activeFile,
+                contextFiles: allContextFiles(),
+                mentions: Array.from(mentions.values()),
+                agent: agentMode.checked
+            });
+            userInput.value = '';
+            prepareForLlmResponse(text, undefined, requestId);
+        }
+    }
+}
+
+function toggleButtonState(generating) {
+    isGenerating = generating;
+    sendButton.textContent = generating ? 'Stop' : 'Send';
+    sendButton.classList.toggle('stop-button', generating);
+}
+
+function addMessage(text, className, headerText) {
+    const messageElement = document.createElement('div');
+    messageElement.className = 'message ' + className;
+    const header = document.createElement('div');
+    header.className = 'message-header';
+    header.textContent = headerText;
+    const body = document.createElement('div');
+    body.className = 'message-body';
+    body.innerHTML = renderMarkdown(text);
+    messageElement.append(header, body);
+    messagesDiv.appendChild(messageElement);
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+}
+
+function addUserMessage(text) {
+    transcript.push({ type: 'user', text: text });
+    addMessage(text, 'user-message', 'You');
+}
+
+function saveSession() {
+    post({
+        command: 'saveSession',
+        transcript: transcript,
+        contextFiles: Array.from(contextFiles),
+        mentions: Array.from(mentions.values())
+    });
+}
+
+// Rebuilds the panel through the same functions that built it, so diff buttons work as before
+function replayTranscript(entries) {
+    messagesDiv.replaceChildren();
+    transcript = [];
+    entries.forEach(entry => {
+        switch (entry.type) {
+            case 'user':
+                addUserMessage(entry.text);
+                break;
+            case 'model': {
+                const response = prepareForLlmResponse(entry.prompt, entry.scope);
+                if (entry.thoughts) appendThought(response, entry.thoughts);
+                entry.toolCalls.forEach(toolCall => {
+                    appendToolCall(response, toolCall.call);
+                    if (toolCall.result !== undefined) appendToolResult(response, toolCall.call.id, toolCall.result);
+                });
+                if (entry.answer) appendResponse(response, entry.answer);
+                finalizeGeneration(response, entry.cancelled);
+                break;
+            }
+            case 'verificationReport':
+                addVerificationReport(entry.results);
+                break;
+            case 'applyReport':
+                addApplyReport(entry.report);
+                break;
+        }
+    });
+}
+
+function addVerificationReport(results) {
+    transcript.push({ type: 'verificationReport', results: results });
+    const failed = results.filter(result => !result.ok).length;
+    const reportElement = document.createElement('div');
+    reportElement.className = 'message ' + (failed > 0 ? 'report-message' : 'verification-message');
+
+    const header = document.createElement('div');
+    header.className = 'message-header';
+    header.textContent = failed > 0 ? `Verification: ${failed} of ${results.length} steps failed` : 'Verification passed';
+    reportElement.appendChild(header);
+
+    const list = document.createElement('ul');
+    results.forEach(result => {
+        const item = document.createElement('li');
+        const details = document.createElement('details');
+        if (!result.ok) details.open = true;
+        const title = document.createElement('summary');
+        title.textContent = (result.ok ? '✔ ' : '✖ ') + result.label;
+        const pre = document.createElement('pre');
+        pre.textContent = result.output;
+        details.appendChild(title);
+        details.appendChild(pre);
+        item.appendChild(details);
+        list.appendChild(item);
+    });
+    reportElement.appendChild(list);
+
+    if (failed > 0) {
+        const fixButton = document.createElement('button');
+        fixButton.className = 'apply-button';
+        fixButton.textContent = 'Ask Gemini to fix';
+        fixButton.addEventListener('click', () => {
+            if (isGenerating) return;
+            fixButton.disabled = true;
+            post({ command: 'fixVerification' });
+        });
+        reportElement.appendChild(fixButton);
+    }
+
+    messagesDiv.appendChild(reportElement);
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+}
+
+function addApplyReport(report) {
+    transcript.push({ type: 'applyReport', report: report });
+    const reportElement = document.createElement('div');
+    reportElement.className = 'message report-message';
+
+    const header = document.createElement('div');
+    header.className = 'message-header';
+    header.textContent = 'Apply Report';
+    reportElement.appendChild(header);
+
+    const summary = document.createElement('div');
+    summary.textContent = `${report.failures.length} of ${report.totalHunks} changes could not be applied to ${report.filePath}:`;
+    reportElement.appendChild(summary);
+
+    const list = document.createElement('ul');
+    report.failures.forEach(failure => {
+        const item = document.createElement('li');
+        const details = document.createElement('details');
+        const title = document.createElement('summary');
+        title.textContent = `Hunk ${failure.number}: ${failure.reason}`;
+        const pre = document.createElement('pre');
+        pre.textContent = failure.hunk;
+        details.appendChild(title);
+        details.appendChild(pre);
+        item.appendChild(details);
+        list.appendChild(item);
+    });
+    reportElement.appendChild(list);
+
+    const repairButton = document.createElement('button');
+    repairButton.className = 'apply-button';
+    repairButton.textContent = 'Ask Gemini to fix';
+    repairButton.addEventListener('click', () => {
+        if (isGenerating) return;
+        repairButton.disabled = true;
+        post({ command: 'repairDiff', filePath: report.filePath });
+    });
+    reportElement.appendChild(repairButton);
+
+    messagesDiv.appendChild(reportElement);
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+}
+
+// A scope limits the diffs in the answer to part of one file, and is sent back when they are applied.
+// The answer streams into the returned response; with a request ID, messages for that request find it.
+function prepareForLlmResponse(prompt, scope, requestId) {
+    toggleButtonState(true);
+    const llmContainer = document.createElement('div');
+    llmContainer.className = 'message llm-message';
+    llmContainer.dataset.prompt = prompt;
+    if (scope) llmContainer.dataset.scope = JSON.stringify(scope);
+    const entry = { type: 'model', prompt: prompt, scope: scope, thoughts: '', toolCalls: [], answer: '', cancelled: false };
+    transcript.push(entry);
+    llmContainer.innerHTML = `
+        <div class="message-header">Gemini</div>
+        <details class="thoughts-section" open><summary>Thinking...</summary><div class="thoughts-content hidden"></div></details>
+        <details class="tools-section hidden" open><summary>Tool calls</summary><div class="tools-content"></div></details>
+        <div class="answer-content"></div>`;
+    messagesDiv.appendChild(llmContainer);
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+    const response = { container: llmContainer, entry: entry };
+    if (requestId) responses.set(requestId, response);
+    return response;
+}
+
+function appendThought(response, text) {
+    if (!response) return;
+    response.entry.thoughts += text;
+    const thoughtsContent = response.container.querySelector('.thoughts-content');
+    thoughtsContent.classList.remove('hidden');
+    thoughtsContent.insertAdjacentHTML('beforeend', renderMarkdown(text)); // Using render to handle markdown in thoughts
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+}
+
+// Arguments and results are shown as plain text; they can contain anything the workspace does
+function appendToolCall(response, call) {
+    if (!response) return;
+    response.entry.toolCalls.push({ call: call });
+    const toolsSection = response.container.querySelector('.tools-section');
+    toolsSection.classList.remove('hidden');
+    const entry = document.createElement('div');
+    entry.className = 'tool-call';
+    entry.dataset.id = call.id;
+    const name = document.createElement('div');
+    name.className = 'tool-call-name';
+    name.textContent = call.name;
+    const args = document.createElement('pre');
+    args.textContent = JSON.stringify(call.args, null, 2);
+    entry.append(name, args);
+    toolsSection.querySelector('.tools-content').appendChild(entry);
+    toolsSection.querySelector('summary').textContent = `Tool calls (${toolsSection.querySelectorAll('.tool-call').length})`;
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+}
+
+function appendToolResult(response, id, result) {
+    if (!response) return;
+    const entry = Array.from(response.container.querySelectorAll('.tool-call')).find(element => element.dataset.id === id);
+    if (!entry) return;
+    const toolCall = response.entry.toolCalls.find(toolCall => toolCall.call.id === id);
+    if (toolCall) toolCall.result = result;
+    const output = document.createElement('pre');
+    output.className = 'tool-result';
+    output.textContent = result;
+    entry.appendChild(output);
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+}
+
+function appendResponse(response, text) {
+    if (!response) return;
+    response.entry.answer += text;
+    const answerContent = response.container.querySelector('.answer-content');
+    const currentText = answerContent.dataset.rawText || '';
+    const newText = currentText + text;
+    answerContent.dataset.rawText = newText;
+    answerContent.innerHTML = renderMarkdown(newText);
+    messagesDiv.scrollTop = messagesDiv.scrollHeight;
+}
+
+function finalizeGeneration(response, cancelled) {
+    toggleButtonState(false);
+    if (!response) return;
+
+    const container = response.container;
+    const thoughtsSection = container.querySelector('.thoughts-section');
+    const thoughtsContent = container.querySelector('.thoughts-content');
+    thoughtsSection.removeAttribute('open');
+    if (!thoughtsContent.hasChildNodes()) thoughtsSection.classList.add('hidden');
+    container.querySelector('.tools-section').removeAttribute('open');
+
+    response.entry.cancelled = Boolean(cancelled);
+    if (cancelled) {
+       const cancelledNotice = document.createElement('div');
+       cancelledNotice.className = 'cancelled-notice';
+       cancelledNotice.textContent = 'Generation stopped.';
+       container.appendChild(cancelledNotice);
+    }
+    const diffs = applyDiffHighlighting(container);
+    if (diffs.length > 0) {
+        addDiffActions(container, diffs);
+    }
+    userInput.focus();
+}
+
+function addDiffActions(element, diffs) {
+    const applyAllBar = document.createElement('div');
+    applyAllBar.className = 'apply-all-bar';
+    const exportButton = document.createElement('button');
+    exportButton.className = 'apply-button';
+    exportButton.textContent = 'Export .patch';
+    exportButton.title = 'Save the diffs as one patch file for git apply';
+    exportButton.addEventListener('click', () => {
+        post({ command: 'exportPatch', diffs: diffs, prompt: element.dataset.prompt });
+    });
+    applyAllBar.appendChild(exportButton);
+    if (diffs.length > 1) {
+        const applyAllButton = document.createElement('button');
+        applyAllButton.className = 'apply-button';
+        applyAllButton.textContent = `Apply All & Review (${diffs.length} diffs)`;
+        applyAllButton.addEventListener('click', () => {
+            post({ command: 'applyAllDiffs', diffs: diffs, prompt: element.dataset.prompt, scope: getScope(element) });
+        });
+        applyAllBar.appendChild(applyAllButton);
+    }
+    element.appendChild(applyAllBar);
+}
+
+function getScope(element) {
+    return element.dataset.scope ? JSON.parse(element.dataset.scope) : undefined;
+}
+
+// Highlights the diff blocks in an answer and returns the ones that name a file
+function applyDiffHighlighting(element) {
+    const diffs = [];
+    const pres = element.querySelectorAll('pre');
+    pres.forEach(pre => {
+        const code = pre.querySelector('code.language-diff');
+        if (!code) return;
+
+        const rawDiffText = code.textContent || '';
+        // '/dev/null' on either side marks a created or deleted file
+        const oldMatch = rawDiffText.match(/^---\s+(?:a\/)?([^\n\t]+)/m);
+        const newMatch = rawDiffText.match(/^\+\+\+\s+(?:b\/)?([^\n\t]+)/m);
+        const oldPath = oldMatch && oldMatch[1].trim() !== '/dev/null' ? oldMatch[1].trim() : null;
+        const newPath = newMatch && newMatch[1].trim() !== '/dev/null' ? newMatch[1].trim() : null;
+        const filePath = newPath || oldPath;
+        let headerLabel = 'Changes for: ' + (filePath || 'unknown file');
+        if (oldMatch && !oldPath && newPath) headerLabel = 'New file: ' + newPath;
+        else if (oldPath && newMatch && !newPath) headerLabel = 'Delete: ' + oldPath;
+        else if (oldPath && newPath && oldPath !== newPath) headerLabel = 'Rename: ' + oldPath + ' → ' + newPath;
+
+        const lines = rawDiffText.split('\n');
+        code.replaceChildren(...lines.map((line, index) => {
+            const text = index < lines.length - 1 ? line + '\n' : line;
+            if (line.startsWith('+')) return createSpan(text, 'diff-add');
+            if (line.startsWith('-')) return createSpan(text, 'diff-del');
+            return document.createTextNode(text);
+        }));
+
+        const wrapper = document.createElement('div');
+        wrapper.className = 'collapsible-code-wrapper';
+        const header = document.createElement('div');
+        header.className = 'code-block-header';
+        header.appendChild(createSpan(headerLabel, 'code-block-label'));
+
+        if (filePath) {
+            diffs.push({ filePath: filePath, diff: rawDiffText });
+            const applyButton = document.createElement('button');
+            applyButton.className = 'apply-button';
+            applyButton.textContent = 'Apply & Review';
+            header.appendChild(applyButton);
+            applyButton.addEventListener('click', () => {
+                post({ command: 'applyDiff', diff: rawDiffText, filePath: filePath, prompt: element.dataset.prompt, scope: getScope(element) });
+            });
+        }
+
+        pre.parentNode.insertBefore(wrapper, pre);
+        wrapper.appendChild(header);
+        wrapper.appendChild(pre);
+
+        const button = document.createElement('button');
+        button.className = 'toggle-code-button';
+        wrapper.appendChild(button);
+
+        if (lines.length > 4) {
+            wrapper.classList.add('collapsed');
+            button.textContent = 'Show Full Code';
+        } else {
+            button.classList.add('hidden');
+        }
+        button.addEventListener('click', () => {
+            wrapper.classList.toggle('collapsed');
+            button.textContent = wrapper.classList.contains('collapsed') ? 'Show Full Code' : 'Hide Full Code';
+        });
+    });
+    return diffs;
+}
+
+post({ command: 'ready' });
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * How files are named in prompts, diffs and the chat panel. In a single-folder workspace this is the path relative to
+ * the folder. With several folders it starts with the folder's name, as in `api/src/index.ts`, so it says which
+ * folder the file is in.
+ */
+export type WorkspacePath = string;
+
+/** A workspace path resolved to the folder it belongs to. */
+export interface ResolvedPath {
+	folder: vscode.WorkspaceFolder;
+	/** The path relative to `folder`. Empty for the folder itself. */
+	relativePath: string;
+	uri: vscode.Uri;
+	/** The path in its canonical form, with the folder name if the workspace has several folders. */
+	workspacePath: WorkspacePath;
+}
+
+export class WorkspacePathError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'WorkspacePathError';
+	}
+}
+
+export function toWorkspacePath(uri: vscode.Uri): WorkspacePath {
+	return vscode.workspace.asRelativePath(uri, true);
+}
+
+/** The open workspace folders. Throws a `WorkspacePathError` if there are none. */
+export function requireWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	if (folders.length === 0) {
+		throw new WorkspacePathError("Please open a folder or workspace first.");
+	}
+	return folders;
+}
+
+/** The folder to start file dialogs in: the active editor's folder, or the workspace's first. */
+export function defaultWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+	const activeUri = vscode.window.activeTextEditor?.document.uri;
+	return (activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+function resolved(folder: vscode.WorkspaceFolder, relativePath: string, multiRoot: boolean): ResolvedPath {
+	const uri = relativePath ? vscode.Uri.joinPath(folder.uri, relativePath) : folder.uri;
+	const workspacePath = multiRoot ? [folder.name, relativePath].filter(Boolean).join('/') : relativePath;
+	return { folder, relativePath, uri, workspacePath };
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		await vscode.workspace.fs.stat(uri);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Finds the folder a workspace path belongs to. In a multi-root workspace a path starting with a folder's name goes
+ * to that folder. A path without one, as models and patches from elsewhere sometimes write, goes to the one folder
+ * it exists in. Throws a `WorkspacePathError` if no folder is open, if the path leads out of the workspace with `..`,
+ * if several folders share the name, or if an unqualified path exists in no folder or in several.
+ */
+export async function resolveWorkspacePath(workspacePath: WorkspacePath): Promise<ResolvedPath> {
+	const folders = requireWorkspaceFolders();
+	const cleaned = workspacePath.trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+	// `Uri.joinPath` resolves `..` silently, so a path that climbs out of its folder is refused before it is joined
+	const normalized = cleaned ? path.posix.normalize(cleaned).replace(/^\.$/, '').replace(/\/+$/, '') : '';
+	if (normalized === '..' || normalized.startsWith('../')) {
+		throw new WorkspacePathError(`${workspacePath} is outside the workspace.`);
+	}
+	if (folders.length === 1) { return resolved(folders[0], normalized, false); }
+
+	const [first, ...rest] = normalized.split('/');
+	const named = folders.filter(folder => folder.name === first);
+	if (named.length > 1) {
+		throw new WorkspacePathError(`${workspacePath} is ambiguous: ${named.length} workspace folders are named "${first}".`);
+	}
+	if (named.length === 1) { return resolved(named[0], rest.join('/'), true); }
+
+	const matches: vscode.WorkspaceFolder[] = [];
+	for (const folder of folders) {
+		if (await exists(vscode.Uri.joinPath(folder.uri, normalized))) { matches.push(folder); }
+	}
+	const prefixes = folders.map(folder => `${folder.name}/${normalized}`).join(', ');
+	if (matches.length === 0) {
+		throw new WorkspacePathError(`${workspacePath} matches no workspace folder. Start the path with the folder's name, such as ${prefixes}.`);
+	}
+	if (matches.length > 1) {
+		throw new WorkspacePathError(`${workspacePath} is ambiguous: it exists in ${matches.map(folder => folder.name).join(', ')}. Start the path with the folder's name.`);
+	}
+	return resolved(matches[0], normalized, true);
+}
+
+/**
+ * Explains a multi-root workspace to the model, so it names files with their folder. Empty for a single folder.
+ */
+export function describeWorkspaceLayout(): string {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	if (folders.length < 2) { return ''; }
+	const list = folders.map(folder => `- ${folder.name}`).join('\n');
+	return `This workspace has ${folders.length} root folders:
+${list}
+Every file path starts with the name of its root folder, as in '${folders[0].name}/src/index.ts'. Use paths in this form everywhere, including diff headers ('--- a/${folders[0].name}/src/index.ts').
+
+`;
+}